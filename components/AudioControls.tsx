@@ -0,0 +1,25 @@
+import React from 'react';
+import { AudioSettings } from '../types';
+
+const CHANNELS: { key: 'master' | 'sfx' | 'music'; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'sfx', label: 'SFX' },
+  { key: 'music', label: 'MUSIC' },
+];
+
+const AudioControls: React.FC<{ settings: AudioSettings; onChange: (next: AudioSettings) => void }> = ({ settings, onChange }) => (
+  <div className="flex flex-col gap-1 mt-3 w-56 text-sm">
+    {CHANNELS.map(({ key, label }) => (
+      <label key={key} className="flex items-center gap-2">
+        <span className="w-14 text-gray-300">{label}</span>
+        <input type="range" min={0} max={1} step={0.05} value={settings[key]} disabled={settings.muted}
+          onChange={e => onChange({ ...settings, [key]: Number(e.target.value) })} className="flex-1 disabled:opacity-40" />
+      </label>
+    ))}
+    <button onClick={() => onChange({ ...settings, muted: !settings.muted })} className="mt-1 px-3 py-1 bg-gray-700 rounded">
+      {settings.muted ? '🔇 SOUND OFF' : '🔊 SOUND ON'}
+    </button>
+  </div>
+);
+
+export default AudioControls;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { DailyResult } from '../types';
+import { currentStreak, dailyBests, formatClearTime, shareText } from '../engine/daily';
+
+// The day's run next to the personal bests, with the text to share.
+const DailySummary: React.FC<{ result: DailyResult; history: DailyResult[] }> = ({ result, history }) => {
+  const [copied, setCopied] = useState(false);
+  const streak = currentStreak(history, result.date);
+  const bests = dailyBests(history);
+  const text = shareText(result, streak);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1 mb-3 text-sm">
+      <table className="mb-1">
+        <tbody>
+          <tr><td className="pr-4 text-gray-400">Time</td><td>{formatClearTime(result.timeMs)}</td></tr>
+          <tr><td className="pr-4 text-gray-400">Bombs</td><td>{result.bombs}</td></tr>
+          <tr><td className="pr-4 text-gray-400">Deaths</td><td>{result.deaths}</td></tr>
+          <tr><td className="pr-4 text-gray-400">Streak</td><td>{streak} (best {bests.longestStreak})</td></tr>
+          {bests.fastestMs !== null && <tr><td className="pr-4 text-gray-400">Fastest clear</td><td>{formatClearTime(bests.fastestMs)}</td></tr>}
+          {bests.fewestBombs !== null && <tr><td className="pr-4 text-gray-400">Fewest bombs</td><td>{bests.fewestBombs}</td></tr>}
+        </tbody>
+      </table>
+      <pre aria-label="Result to share" className="px-3 py-2 bg-neutral-800 rounded text-left text-xs whitespace-pre">{text}</pre>
+      <button onClick={copy} className="px-4 py-1 bg-sky-700 rounded">{copied ? 'COPIED' : 'COPY RESULT'}</button>
+    </div>
+  );
+};
+
+export default DailySummary;
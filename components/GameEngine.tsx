@@ -1,401 +1,664 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
+import { AudioSettings, DailyChallenge, DailyResult, DailyTally, GameStatus, GameState, Player, Point, PlayerInputs, BattleSetup, InputAction, KeyBinding, CampaignState, CpuDifficulty, GraphicsSettings, HighScoreEntry, LevelDefinition, LevelTheme, MatchRules, MatchState, Palette, Recording, RenderBackend, RoomInfo, RulesPreset, RulesSettings } from '../types';
 import { 
-  TileType, 
-  Player, 
-  Bomb, 
-  Explosion, 
-  Enemy, 
-  GameStatus, 
-  Point
-} from '../types';
-import { 
-  TILE_SIZE, 
   GRID_ROWS, 
   GRID_COLS, 
-  CANVAS_WIDTH, 
-  CANVAS_HEIGHT, 
-  EMOJIS, 
-  BOMB_TIMER_MS, 
-  EXPLOSION_DURATION_MS,
-  COLORS
+  ARENA_SIZES,
+  TICK_MS,
+  MAX_CATCH_UP_TICKS,
+  BOMBER_EMOJIS,
+  BOMBER_NAMES,
+  EMOJIS,
+  MAX_BOMBERS,
+  ROUND_TIME_MS
 } from '../constants';
+import { step } from '../engine/simulation';
+import { createStage, currentLevel, isGameOver, resolveStage, stageOptions, stageSeed, startCampaign } from '../engine/campaign';
+import { createRound, matchWinner, resolveRound, roundOptions, roundSeed, startMatch } from '../engine/match';
+import { Recorder, ReplayFormatError, decodeRecording, finishRecording, recordTick, resumeRecording, startRecording } from '../engine/replay';
+import { SAVE_VERSION } from '../engine/save';
+import { currentStreak, dailyChallenge, dailyDate, dailyResult, recordResult, startTally, tallyTick } from '../engine/daily';
+import { PRESET_NAMES, RulesFormatError, decodeRules, presetOf, rulesOf } from '../engine/rules';
+import { createRoom, isHost, joinRoom, leaveRoom, onlineView, predictTick, startNextRound, startOnlineMatch } from '../engine/online';
+import { CAMPAIGN_LEVELS } from '../levels/campaign';
+import {
+  createInputHub,
+  endFrame,
+  isBound,
+  keyDown,
+  keyLabel,
+  keyUp,
+  loadBindings,
+  readActions,
+  releaseAll,
+  saveBindings,
+  toPlayerInput,
+  touchAction
+} from './controls';
+import TouchControls, { useSwipeControls } from './TouchControls';
+import InputSettings from './InputSettings';
+import { Renderer, drawOptions, loadGraphics, rendererFor, saveGraphics, snapshotPositions } from './render';
+import { Camera, cameraTarget, fitCanvas, followCamera, resolutionFor, viewSize } from './camera';
+import LevelEditor from './LevelEditor';
+import ReplayViewer from './ReplayViewer';
+import HighScores, { NameEntry } from './HighScores';
+import { addHighScore, cleanName, loadHighScores, qualifies, saveHighScores } from './scores';
+import { clearSavedGame, loadSavedGame, storeSavedGame } from './saves';
+import { createAudio, loadAudioSettings, saveAudioSettings } from './audio';
+import AudioControls from './AudioControls';
+import OnlineLobby from './OnlineLobby';
+import Overlay from './Overlay';
+import RulesMenu from './RulesMenu';
+import { loadRules, saveRules } from './rules';
+import DailySummary from './DailySummary';
+import { loadDailyHistory, saveDailyHistory } from './daily';
+import { announce, describeEvents } from './announce';
+import { OnlineConnection, OnlineSettings, OnlineUpdate, connectOnline, loadOnlineSettings, saveOnlineSettings } from './online';
+
+const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+const CPU_LABELS: Record<CpuDifficulty, string> = {
+  [CpuDifficulty.Easy]: 'EASY',
+  [CpuDifficulty.Normal]: 'NORMAL',
+  [CpuDifficulty.Hard]: 'HARD',
+};
+
+const formatTime = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const campaignHud = (state: GameState, campaign: CampaignState) => {
+  const p = state.players[0];
+  const time = state.timeLeftMs !== null ? ` · ⏱ ${formatTime(state.timeLeftMs)}` : '';
+  const mines = p.mines > 0 ? ` · ${EMOJIS.MINE} ${p.mines}` : '';
+  return `Stage ${campaign.stageIndex + 1}/${campaign.levels.length} · ${currentLevel(campaign).name} · ❤️ ${p.lives}` +
+    ` · 💣 ${p.maxBombs - p.bombCount}/${p.maxBombs}${mines} · 🔥 ${p.blastRadius}${time} · ${p.score.toLocaleString()}`;
+};
+
+const BACKEND_LABELS: Record<RenderBackend, string> = {
+  [RenderBackend.Emoji]: 'EMOJI',
+  [RenderBackend.Sprites]: 'SPRITES',
+};
 
-const HITBOX_SIZE = 30;
+const THEME_CHOICES: (LevelTheme | null)[] = [null, LevelTheme.Meadow, LevelTheme.Desert, LevelTheme.Snow, LevelTheme.Night];
+
+const PALETTE_LABELS: Record<Palette, string> = {
+  [Palette.Standard]: 'STANDARD',
+  [Palette.HighContrast]: 'HIGH CONTRAST',
+  [Palette.Colorblind]: 'COLORBLIND SAFE',
+};
+
+// Null follows the system setting
+const MOTION_CHOICES: (boolean | null)[] = [null, true, false];
+const motionLabel = (reduced: boolean | null) => reduced === null ? 'SYSTEM' : reduced ? 'REDUCED' : 'FULL';
+
+// Typing in a field, or pressing a focused button, is not a game input
+const isForUi = (e: KeyboardEvent) => {
+  const target = e.target instanceof Element ? e.target : null;
+  if (target?.closest('input, textarea, select')) return true;
+  return (e.code === 'Space' || e.code === 'Enter' || e.code === 'NumpadEnter') && !!target?.closest('button, a[href]');
+};
 
 const GameEngine: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.Menu);
   
-  // Game State Refs
-  const mapRef = useRef<TileType[][]>([]);
-  const playerRef = useRef<Player>({ 
-    x: TILE_SIZE, y: TILE_SIZE, width: HITBOX_SIZE, height: HITBOX_SIZE, 
-    alive: true, speed: 4, bombCount: 0, maxBombs: 3, blastRadius: 2 
-  });
-  const bombsRef = useRef<Bomb[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  const enemiesRef = useRef<Enemy[]>([]);
-  
-  // Unified Input State
-  const inputsRef = useRef({
-    ArrowUp: false,
-    ArrowDown: false,
-    ArrowLeft: false,
-    ArrowRight: false,
-    Space: false
-  });
+  // Game State
+  const stateRef = useRef<GameState | null>(null);
+  const campaignRef = useRef<CampaignState | null>(null);
+  const [campaign, setCampaign] = useState<CampaignState | null>(null);
+  const [board, setBoard] = useState(() => viewSize(GRID_ROWS, GRID_COLS));
+  const hudRef = useRef<HTMLDivElement>(null);
+  // Screen-reader announcements gathered over a frame's ticks
+  const liveRef = useRef<HTMLDivElement>(null);
+  const spokenRef = useRef<string[]>([]);
+
+  // Level editor: the draft survives play-testing as level text
+  const [editing, setEditing] = useState(false);
+  const [playTesting, setPlayTesting] = useState(false);
+  const [editorText, setEditorText] = useState<string | null>(null);
+
+  // Battle: best-of-N arena rounds between humans and CPU rivals
+  const matchRef = useRef<MatchState | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [choosingBattle, setChoosingBattle] = useState(false);
+  const [cpuLevel, setCpuLevel] = useState(CpuDifficulty.Normal);
+  const [battleSetup, setBattleSetup] = useState<Omit<BattleSetup, 'rules'>>({ humans: 2, rivals: [], winsNeeded: 2, roundTimeMs: ROUND_TIME_MS, rows: GRID_ROWS, cols: GRID_COLS });
+
+  // Match rules: every new campaign, battle and hosted room plays by these
+  const [rulesSettings, setRulesSettings] = useState<RulesSettings>(loadRules);
+  const rulesRef = useRef<MatchRules>(rulesOf(rulesSettings.preset, rulesSettings.custom));
+  const [showingRules, setShowingRules] = useState(false);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  // Daily challenge: a one-stage campaign with its own tally and history.
+  // The result is set once the run ends.
+  const dailyRef = useRef<{ challenge: DailyChallenge; tally: DailyTally; result: DailyResult | null } | null>(null);
+  const [dailyRun, setDailyRun] = useState<DailyResult | null>(null);
+  const [dailyHistory, setDailyHistory] = useState<DailyResult[]>(loadDailyHistory);
+  const dailyHistoryRef = useRef(dailyHistory);
+
+  // Unified Input State: every physical source feeds the hub, which is read
+  // per player through that slot's bindings
+  const hubRef = useRef(createInputHub());
+  const [bindings, setBindings] = useState<KeyBinding[]>(loadBindings);
+  const bindingsRef = useRef(bindings);
+  const [editingControls, setEditingControls] = useState(false);
+  const pausedRef = useRef(false);
+  const [paused, setPaused] = useState(false);
+
+  // Replays: every stage and round records its seed and human inputs
+  const recorderRef = useRef<Recorder | null>(null);
+  const [replay, setReplay] = useState<{ recording: Recording | null; error: string | null } | null>(null);
+
+  // High scores: a finished campaign may enter the table once
+  const [highScores, setHighScores] = useState<HighScoreEntry[]>(loadHighScores);
+  const [savedRank, setSavedRank] = useState<number | null>(null);
+  const [showingScores, setShowingScores] = useState(false);
+
+  // Graphics: the renderer is rebuilt lazily when the backend or screen
+  // resolution changes, and the camera follows the humans around big maps
+  const [graphics, setGraphics] = useState<GraphicsSettings>(loadGraphics);
+  const graphicsRef = useRef(graphics);
+  const rendererRef = useRef<Renderer | null>(null);
+  const cameraRef = useRef<Camera | null>(null);
+
+  // Autosave: the run in progress is snapshotted whenever play stops
+  const [hasSave, setHasSave] = useState(() => loadSavedGame() !== null);
+
+  // Audio: silent until the first START or CONTINUE unlocks it
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [audio] = useState(() => createAudio(audioSettings));
+  const [showingAudio, setShowingAudio] = useState(false);
+  const [showingAccess, setShowingAccess] = useState(false);
+
+  // Online: the server runs the game; the local copy is a prediction of it
+  const onlineRef = useRef<OnlineConnection | null>(null);
+  const [online, setOnline] = useState<{ room: RoomInfo | null; you: number; connected: boolean; error: string | null } | null>(null);
+  const [onlineSettings, setOnlineSettings] = useState<OnlineSettings>(loadOnlineSettings);
+  const [choosingOnline, setChoosingOnline] = useState(false);
 
   const lastTimeRef = useRef<number>(0);
+  const accumulatorRef = useRef(0);
+  const previousRef = useRef(new Map<string, Point>());
   const animationFrameId = useRef<number | null>(null);
 
-  // --- Helpers ---
-  const rectIntersect = (r1: any, r2: any) => {
-    return !(r2.x >= r1.x + r1.w || r2.x + r2.w <= r1.x || r2.y >= r1.y + r1.h || r2.y + r2.h <= r1.y);
+  // The graphics theme override also picks the music
+  const currentTheme = () => graphicsRef.current.theme ?? (campaignRef.current ? currentLevel(campaignRef.current).theme : LevelTheme.Meadow);
+
+  const loadState = useCallback((state: GameState) => {
+    if (state.status === GameStatus.Playing && !pausedRef.current) audio.startMusic(currentTheme());
+    stateRef.current = state;
+    previousRef.current = snapshotPositions(state);
+    setBoard(viewSize(state.map.length, state.map[0].length));
+    cameraRef.current = null;
+    setGameStatus(state.status);
+    lastTimeRef.current = performance.now();
+    accumulatorRef.current = 0;
+  }, []);
+
+  const startStage = useCallback(() => {
+    if (!campaignRef.current) return;
+    recorderRef.current = startRecording(stageSeed(campaignRef.current), stageOptions(campaignRef.current), currentLevel(campaignRef.current).theme);
+    loadState(createStage(campaignRef.current));
+  }, [loadState]);
+
+  const discardSave = () => {
+    clearSavedGame();
+    setHasSave(false);
   };
 
-  const getGridPos = (x: number, y: number) => {
-    return { c: Math.floor(x / TILE_SIZE), r: Math.floor(y / TILE_SIZE) };
+  const endDaily = () => {
+    dailyRef.current = null;
+    setDailyRun(null);
   };
 
   const initGame = useCallback(() => {
-    const newMap: TileType[][] = [];
-    for (let r = 0; r < GRID_ROWS; r++) {
-      const row: TileType[] = [];
-      for (let c = 0; c < GRID_COLS; c++) {
-        if (r === 0 || r === GRID_ROWS - 1 || c === 0 || c === GRID_COLS - 1 || (r % 2 === 0 && c % 2 === 0)) {
-          row.push(TileType.HardWall);
-        } else {
-          const isSafeZone = (r < 3 && c < 3);
-          if (!isSafeZone && Math.random() < 0.3) {
-            row.push(TileType.SoftWall);
-          } else {
-            row.push(TileType.Empty);
-          }
-        }
-      }
-      newMap.push(row);
-    }
-    mapRef.current = newMap;
-
-    playerRef.current = {
-      x: TILE_SIZE * 1.5,
-      y: TILE_SIZE * 1.5,
-      width: HITBOX_SIZE,
-      height: HITBOX_SIZE,
-      alive: true,
-      speed: 4,
-      bombCount: 0,
-      maxBombs: 3,
-      blastRadius: 2
-    };
+    audio.unlock();
+    campaignRef.current = startCampaign(randomSeed(), CAMPAIGN_LEVELS, rulesRef.current);
+    setCampaign(campaignRef.current);
+    endDaily();
+    matchRef.current = null;
+    setMatch(null);
+    setPlayTesting(false);
+    setSavedRank(null);
+    discardSave();
+    startStage();
+  }, [startStage]);
+
+  // Everyone gets the same stage and rules for the day. Starting one leaves
+  // any saved campaign alone.
+  const startDaily = () => {
+    audio.unlock();
+    const challenge = dailyChallenge(dailyDate(new Date()));
+    campaignRef.current = startCampaign(challenge.seed, [challenge.level], challenge.rules);
+    setCampaign(campaignRef.current);
+    dailyRef.current = { challenge, tally: startTally(), result: null };
+    setDailyRun(null);
+    matchRef.current = null;
+    setMatch(null);
+    setPlayTesting(false);
+    setSavedRank(null);
+    startStage();
+  };
 
-    const enemies: Enemy[] = [];
-    let enemyCount = 4;
-    while(enemyCount > 0) {
-      const r = Math.floor(Math.random() * (GRID_ROWS - 2)) + 1;
-      const c = Math.floor(Math.random() * (GRID_COLS - 2)) + 1;
-      if (newMap[r][c] === TileType.Empty && (r > 4 || c > 4)) {
-        enemies.push({
-          id: Math.random(),
-          x: c * TILE_SIZE + TILE_SIZE / 2,
-          y: r * TILE_SIZE + TILE_SIZE / 2,
-          width: HITBOX_SIZE,
-          height: HITBOX_SIZE,
-          alive: true,
-          speed: 2,
-          direction: { x: 1, y: 0 },
-          changeDirTimer: 0
-        });
-        enemyCount--;
-      }
-    }
-    enemiesRef.current = enemies;
-    bombsRef.current = [];
-    explosionsRef.current = [];
-    setGameStatus(GameStatus.Playing);
-    lastTimeRef.current = performance.now();
+  const finishDaily = (cleared: boolean) => {
+    const run = dailyRef.current;
+    if (!run || run.result) return;
+    run.result = dailyResult(run.challenge, run.tally, cleared);
+    dailyHistoryRef.current = recordResult(dailyHistoryRef.current, run.result);
+    setDailyHistory(dailyHistoryRef.current);
+    saveDailyHistory(dailyHistoryRef.current);
+    setDailyRun(run.result);
+  };
+
+  const startRound = () => {
+    if (!matchRef.current) return;
+    recorderRef.current = startRecording(roundSeed(matchRef.current), roundOptions(matchRef.current), LevelTheme.Meadow);
+    loadState(createRound(matchRef.current));
+  };
+
+  const startBattle = () => {
+    audio.unlock();
+    campaignRef.current = null;
+    setCampaign(null);
+    endDaily();
+    matchRef.current = startMatch(randomSeed(), { ...battleSetup, rules: rulesRef.current });
+    setMatch(matchRef.current);
+    setPlayTesting(false);
+    setChoosingBattle(false);
+    discardSave();
+    startRound();
+  };
+
+  const changeHumans = (delta: number) => setBattleSetup(setup => {
+    const humans = Math.max(1, Math.min(MAX_BOMBERS, setup.humans + delta));
+    return { ...setup, humans, rivals: setup.rivals.slice(0, MAX_BOMBERS - humans) };
+  });
+  const changeRivals = (delta: number) => setBattleSetup(setup => {
+    const count = Math.max(0, Math.min(MAX_BOMBERS - setup.humans, setup.rivals.length + delta));
+    return { ...setup, rivals: Array(count).fill(cpuLevel) };
+  });
+  const cycleCpuLevel = () => {
+    const level = (cpuLevel + 1) % 3 as CpuDifficulty;
+    setCpuLevel(level);
+    setBattleSetup(setup => ({ ...setup, rivals: setup.rivals.map(() => level) }));
+  };
+  const cycleWinsNeeded = () => setBattleSetup(setup => ({ ...setup, winsNeeded: setup.winsNeeded % 3 + 1 }));
+  const arenaIndex = ARENA_SIZES.findIndex(a => a.rows === battleSetup.rows && a.cols === battleSetup.cols);
+  const cycleArena = () => {
+    const { rows, cols } = ARENA_SIZES[(arenaIndex + 1) % ARENA_SIZES.length];
+    setBattleSetup(setup => ({ ...setup, rows, cols }));
+  };
+  const canStartBattle = battleSetup.humans + battleSetup.rivals.length >= 2;
+
+  const playTest = (level: LevelDefinition, text: string) => {
+    audio.unlock();
+    setEditorText(text);
+    campaignRef.current = startCampaign(randomSeed(), [level], rulesRef.current);
+    setCampaign(campaignRef.current);
+    endDaily();
+    setPlayTesting(true);
+    setEditing(false);
+    startStage();
+  };
+
+  const openEditor = () => {
+    stateRef.current = null;
+    setEditing(true);
+    setGameStatus(GameStatus.Menu);
+  };
+
+  const closeEditor = (text: string) => {
+    setEditorText(text);
+    setEditing(false);
+    setPlayTesting(false);
+  };
+
+  const changeBindings = useCallback((next: KeyBinding[]) => {
+    bindingsRef.current = next;
+    setBindings(next);
+    saveBindings(next);
   }, []);
 
-  // --- Physics ---
-  const isCollision = (targetX: number, targetY: number, w: number, h: number, currentX: number, currentY: number) => {
-      const pRect = { x: targetX - w/2, y: targetY - h/2, w: w, h: h };
-      const curRect = { x: currentX - w/2, y: currentY - h/2, w: w, h: h };
-
-      const left = Math.floor(pRect.x / TILE_SIZE);
-      const right = Math.floor((pRect.x + pRect.w - 0.01) / TILE_SIZE);
-      const top = Math.floor(pRect.y / TILE_SIZE);
-      const bottom = Math.floor((pRect.y + pRect.h - 0.01) / TILE_SIZE);
-
-      for (let r = top; r <= bottom; r++) {
-          for (let c = left; c <= right; c++) {
-              if (r < 0 || r >= GRID_ROWS || c < 0 || c >= GRID_COLS) return true;
-              if (mapRef.current[r][c] !== TileType.Empty) return true;
-          }
-      }
+  const changeGraphics = (next: GraphicsSettings) => {
+    graphicsRef.current = next;
+    setGraphics(next);
+    saveGraphics(next);
+  };
+  const cycleBackend = () => changeGraphics({ ...graphics, backend: (graphics.backend + 1) % 2 as RenderBackend });
+  const cycleTheme = () => changeGraphics({
+    ...graphics, theme: THEME_CHOICES[(THEME_CHOICES.indexOf(graphics.theme) + 1) % THEME_CHOICES.length]
+  });
+  const cyclePalette = () => changeGraphics({ ...graphics, palette: (graphics.palette + 1) % 3 as Palette });
+  const cycleMotion = () => changeGraphics({
+    ...graphics, reducedMotion: MOTION_CHOICES[(MOTION_CHOICES.indexOf(graphics.reducedMotion) + 1) % MOTION_CHOICES.length]
+  });
+  const toggleDangerZones = () => changeGraphics({ ...graphics, dangerZones: !graphics.dangerZones });
 
-      for (const b of bombsRef.current) {
-          const bRect = { x: b.x - TILE_SIZE/2, y: b.y - TILE_SIZE/2, w: TILE_SIZE, h: TILE_SIZE };
-          if (rectIntersect(pRect, bRect)) {
-              if (rectIntersect(curRect, bRect)) continue; 
-              return true;
-          }
-      }
-      return false;
+  const changeRules = (next: RulesSettings) => {
+    rulesRef.current = rulesOf(next.preset, next.custom);
+    setRulesSettings(next);
+    saveRules(next);
+  };
+  // Rules from a link are taken as they are: a preset by name, anything else
+  // as the custom set
+  const adoptRules = (rules: MatchRules) => {
+    const preset = presetOf(rules);
+    changeRules({ preset, custom: preset === RulesPreset.Custom ? rules : rulesSettings.custom });
   };
 
-  const update = (dt: number) => {
-    if (gameStatus !== GameStatus.Playing) return;
-
-    const player = playerRef.current;
-    
-    // Player Move based on unified inputs
-    let dx = 0; let dy = 0;
-    if (inputsRef.current['ArrowUp']) dy -= player.speed;
-    if (inputsRef.current['ArrowDown']) dy += player.speed;
-    if (inputsRef.current['ArrowLeft']) dx -= player.speed;
-    if (inputsRef.current['ArrowRight']) dx += player.speed;
-
-    if (dx !== 0 && dy !== 0) {
-      const len = Math.hypot(dx, dy);
-      dx = (dx / len) * player.speed;
-      dy = (dy / len) * player.speed;
-    }
+  const changeAudio = (next: AudioSettings) => {
+    setAudioSettings(next);
+    saveAudioSettings(next);
+    audio.apply(next);
+  };
 
-    if (dx !== 0) {
-        const nextX = player.x + dx;
-        if (!isCollision(nextX, player.y, player.width, player.height, player.x, player.y)) {
-            player.x = nextX;
-        } else {
-            const gridY = Math.floor(player.y / TILE_SIZE);
-            const centerY = gridY * TILE_SIZE + TILE_SIZE / 2;
-            const offset = player.y - centerY;
-            if (Math.abs(offset) < 20) {
-                if (offset > 0) {
-                   if (!isCollision(nextX, player.y - player.speed, player.width, player.height, player.x, player.y)) player.y -= player.speed;
-                } else {
-                   if (!isCollision(nextX, player.y + player.speed, player.width, player.height, player.x, player.y)) player.y += player.speed;
-                }
-            }
-        }
-    }
+  const setPause = (value: boolean) => {
+    pausedRef.current = value;
+    setPaused(value);
+    if (value) audio.stopMusic();
+    else if (stateRef.current?.status === GameStatus.Playing) audio.startMusic(currentTheme());
+  };
 
-    if (dy !== 0) {
-        const nextY = player.y + dy;
-        if (!isCollision(player.x, nextY, player.width, player.height, player.x, player.y)) {
-            player.y = nextY;
-        } else {
-            const gridX = Math.floor(player.x / TILE_SIZE);
-            const centerX = gridX * TILE_SIZE + TILE_SIZE / 2;
-            const offset = player.x - centerX;
-            if (Math.abs(offset) < 20) {
-                if (offset > 0) {
-                   if (!isCollision(player.x - player.speed, nextY, player.width, player.height, player.x, player.y)) player.x -= player.speed;
-                } else {
-                   if (!isCollision(player.x + player.speed, nextY, player.width, player.height, player.x, player.y)) player.x += player.speed;
-                }
-            }
-        }
+  // Finished runs have nothing left to continue
+  const isRunOver = (state: GameState) => state.status === GameStatus.CampaignComplete
+    || (!!campaignRef.current && isGameOver(campaignRef.current))
+    || (!!matchRef.current && matchWinner(matchRef.current) !== null);
+
+  // Play-tests belong to the editor and are never saved, nor are online games
+  // or daily runs, which are played in one sitting
+  const autosave = () => {
+    const state = stateRef.current;
+    if (!state || playTesting || onlineRef.current || dailyRef.current) return;
+    if (isRunOver(state)) {
+      discardSave();
+      return;
     }
+    storeSavedGame({
+      version: SAVE_VERSION,
+      savedAt: Date.now(),
+      state,
+      campaign: campaignRef.current,
+      match: matchRef.current,
+      recording: recorderRef.current && finishRecording(recorderRef.current)
+    });
+    setHasSave(true);
+  };
 
-    if (inputsRef.current['Space']) {
-      placeBomb();
-      inputsRef.current['Space'] = false; // consume input
-    }
+  // Resumes paused, so nobody gets caught out the moment the board appears
+  const continueGame = () => {
+    const save = loadSavedGame();
+    setHasSave(save !== null);
+    if (!save) return;
+    audio.unlock();
+    campaignRef.current = save.campaign;
+    setCampaign(save.campaign);
+    endDaily();
+    matchRef.current = save.match;
+    setMatch(save.match);
+    recorderRef.current = save.recording && resumeRecording(save.recording);
+    setPlayTesting(false);
+    setSavedRank(null);
+    setPause(save.state.status === GameStatus.Playing);
+    loadState(save.state);
+  };
 
-    // Bombs
-    for (let i = bombsRef.current.length - 1; i >= 0; i--) {
-      bombsRef.current[i].timer -= dt;
-      if (bombsRef.current[i].timer <= 0) {
-        explodeBomb(bombsRef.current[i], i);
-      }
-    }
+  const backToMenu = () => {
+    autosave();
+    stateRef.current = null;
+    setPause(false);
+    audio.stopMusic();
+    setGameStatus(GameStatus.Menu);
+  };
 
-    // Explosions
-    for (let i = explosionsRef.current.length - 1; i >= 0; i--) {
-      const exp = explosionsRef.current[i];
-      exp.timer -= dt;
-      if (exp.timer <= 0) {
-        explosionsRef.current.splice(i, 1);
-        continue;
-      }
-      exp.particles.forEach(p => {
-        const pGrid = getGridPos(player.x, player.y);
-        if (pGrid.r === p.y && pGrid.c === p.x) {
-          player.alive = false;
-          setGameStatus(GameStatus.Lost);
-        }
-        for (let ei = enemiesRef.current.length - 1; ei >= 0; ei--) {
-          const eGrid = getGridPos(enemiesRef.current[ei].x, enemiesRef.current[ei].y);
-          if (eGrid.r === p.y && eGrid.c === p.x) enemiesRef.current.splice(ei, 1);
-        }
-      });
-    }
+  const watchReplay = () => {
+    if (recorderRef.current) setReplay({ recording: finishRecording(recorderRef.current), error: null });
+  };
 
-    // Enemies
-    enemiesRef.current.forEach(enemy => {
-       const dist = Math.hypot(player.x - enemy.x, player.y - enemy.y);
-       if (dist < TILE_SIZE * 0.7) {
-         player.alive = false;
-         setGameStatus(GameStatus.Lost);
-       }
-       
-       const nextX = enemy.x + enemy.direction.x * enemy.speed;
-       const nextY = enemy.y + enemy.direction.y * enemy.speed;
-       
-       if (isCollision(nextX, nextY, enemy.width, enemy.height, enemy.x, enemy.y)) {
-         const dirs = [{x:0, y:-1}, {x:0, y:1}, {x:-1, y:0}, {x:1, y:0}];
-         enemy.direction = dirs[Math.floor(Math.random() * dirs.length)];
-       } else {
-         enemy.x = nextX;
-         enemy.y = nextY;
-       }
-       if (Math.random() < 0.02) {
-         const dirs = [{x:0, y:-1}, {x:0, y:1}, {x:-1, y:0}, {x:1, y:0}];
-         enemy.direction = dirs[Math.floor(Math.random() * dirs.length)];
-       }
-    });
+  const submitScore = (name: string) => {
+    if (!campaign) return;
+    const stage = stateRef.current?.status === GameStatus.CampaignComplete ? campaign.levels.length : campaign.stageIndex + 1;
+    const entry = { name: cleanName(name), score: campaign.score, stage, date: new Date().toISOString().slice(0, 10) };
+    const { entries, rank } = addHighScore(highScores, entry);
+    setHighScores(entries);
+    saveHighScores(entries);
+    setSavedRank(rank);
+  };
 
-    if (enemiesRef.current.length === 0 && gameStatus === GameStatus.Playing) {
-        setGameStatus(GameStatus.Won);
-    }
+  const restart = () => {
+    setPause(false);
+    if (matchRef.current) startRound();
+    else if (dailyRef.current) startDaily();
+    else startStage();
   };
 
-  const placeBomb = () => {
-    const player = playerRef.current;
-    if (player.bombCount >= player.maxBombs) return;
-    const gridPos = getGridPos(player.x, player.y);
-    const bombX = gridPos.c * TILE_SIZE + TILE_SIZE / 2;
-    const bombY = gridPos.r * TILE_SIZE + TILE_SIZE / 2;
-    const exists = bombsRef.current.some(b => {
-      const bPos = getGridPos(b.x, b.y);
-      return bPos.r === gridPos.r && bPos.c === gridPos.c;
-    });
-    if (!exists) {
-      bombsRef.current.push({
-        id: Date.now(), x: bombX, y: bombY, timer: BOMB_TIMER_MS, range: player.blastRadius, ownerId: 'player'
-      });
-      player.bombCount++;
-    }
+  const changeOnlineSettings = (next: OnlineSettings) => {
+    setOnlineSettings(next);
+    saveOnlineSettings(next);
   };
 
-  const explodeBomb = (bomb: Bomb, index: number) => {
-    bombsRef.current.splice(index, 1);
-    playerRef.current.bombCount--;
-    const center = getGridPos(bomb.x, bomb.y);
-    const particles = [{ x: center.c, y: center.r }];
-    const dirs = [{dr: -1, dc: 0}, {dr: 1, dc: 0}, {dr: 0, dc: -1}, {dr: 0, dc: 1}];
-    dirs.forEach(d => {
-      for (let i = 1; i <= bomb.range; i++) {
-        const r = center.r + d.dr * i;
-        const c = center.c + d.dc * i;
-        if (r < 0 || r >= GRID_ROWS || c < 0 || c >= GRID_COLS) break;
-        const tile = mapRef.current[r][c];
-        if (tile === TileType.HardWall) break;
-        particles.push({ x: c, y: r });
-        if (tile === TileType.SoftWall) {
-          mapRef.current[r][c] = TileType.Empty;
-          break; 
-        }
-      }
-    });
-    explosionsRef.current.push({
-      id: Date.now(),
-      timer: EXPLOSION_DURATION_MS,
-      particles: particles.map(p => ({ ...p, alpha: 1.0 }))
-    });
+  // Snapshots arrive many times a second; only lobby and round changes need
+  // a re-render, the canvas picks the rest up on its own.
+  const handleOnline = (update: OnlineUpdate, settings: OnlineSettings) => {
+    const connection = onlineRef.current;
+    if (!connection) return;
+    const { client } = connection;
+    if (update === 'round' && client.state) {
+      campaignRef.current = null;
+      setCampaign(null);
+      recorderRef.current = null;
+      setPlayTesting(false);
+      setChoosingOnline(false);
+      loadState(client.state);
+    }
+    if (client.match && (client.match.seed !== matchRef.current?.seed || client.match.round !== matchRef.current.round)) {
+      matchRef.current = client.match;
+      setMatch(client.match);
+    }
+    if (update === 'state') return;
+    if (update === 'room' && client.room && client.token) {
+      changeOnlineSettings({ ...settings, room: client.room.code, token: client.token });
+    }
+    setOnline(view => ({
+      room: client.room,
+      you: client.you,
+      connected: update === 'offline' ? false : update === 'connected' ? true : view?.connected ?? false,
+      error: client.error
+    }));
   };
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
-    ctx.fillStyle = COLORS.GRASS;
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-    ctx.font = `${TILE_SIZE * 0.75}px 'Apple Color Emoji', 'Segoe UI Emoji', sans-serif`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-
-    mapRef.current.forEach((row, r) => {
-      row.forEach((tile, c) => {
-        const x = c * TILE_SIZE, y = r * TILE_SIZE;
-        if ((r + c) % 2 === 1) {
-             ctx.fillStyle = 'rgba(0,0,0,0.15)';
-             ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
-        }
-        if (tile === TileType.HardWall) {
-          ctx.fillStyle = COLORS.HARD_WALL_BG;
-          ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
-          ctx.fillStyle = 'white';
-          ctx.fillText(EMOJIS.HARD_WALL, x + TILE_SIZE/2, y + TILE_SIZE/2);
-        } else if (tile === TileType.SoftWall) {
-          ctx.fillStyle = COLORS.SOFT_WALL_BG;
-          ctx.fillRect(x + 2, y + 2, TILE_SIZE - 4, TILE_SIZE - 4);
-          ctx.fillStyle = 'white';
-          ctx.fillText(EMOJIS.SOFT_WALL, x + TILE_SIZE/2, y + TILE_SIZE/2);
-        }
-      });
-    });
+  const goOnline = (settings: OnlineSettings, request: (connection: OnlineConnection) => void) => {
+    audio.unlock();
+    onlineRef.current?.close();
+    changeOnlineSettings(settings);
+    const connection = connectOnline(settings, update => handleOnline(update, settings));
+    onlineRef.current = connection;
+    setOnline({ room: null, you: -1, connected: false, error: null });
+    request(connection);
+  };
+  const createOnlineRoom = (settings: OnlineSettings) => goOnline(settings, ({ client }) => createRoom(client, settings.name, { ...battleSetup, rules: rulesRef.current }));
+  const joinOnlineRoom = (settings: OnlineSettings, code: string) => goOnline(settings, ({ client }) => joinRoom(client, code, settings.name));
+
+  const leaveOnline = () => {
+    const connection = onlineRef.current;
+    if (connection) {
+      leaveRoom(connection.client);
+      connection.close();
+      changeOnlineSettings({ ...onlineSettings, room: null, token: null });
+    }
+    onlineRef.current = null;
+    setOnline(null);
+    setChoosingOnline(false);
+    matchRef.current = null;
+    setMatch(null);
+    stateRef.current = null;
+    audio.stopMusic();
+    setGameStatus(GameStatus.Menu);
+  };
 
-    bombsRef.current.forEach(b => {
-      const s = 1 + Math.sin(Date.now() / 200) * 0.1;
-      ctx.save();
-      ctx.translate(b.x, b.y);
-      ctx.scale(s, s);
-      ctx.fillText(EMOJIS.BOMB, 0, 0);
-      ctx.restore();
-    });
+  // Only the first bomber's controls play online; there is no pausing a
+  // shared game.
+  const updateOnline = (connection: OnlineConnection) => {
+    const { client } = connection;
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const actions = readActions(hubRef.current, 0, bindingsRef.current[0], pads[0] ?? null);
+    endFrame(hubRef.current);
+    const stepped = client.state?.status === GameStatus.Playing;
+    predictTick(client, toPlayerInput(actions));
+    const state = client.state;
+    stateRef.current = state;
+    if (!state) return;
+    if (stepped) {
+      audio.play(state.events);
+      if (client.playerId) spokenRef.current.push(...describeEvents(state, [client.playerId]));
+      if (state.status === GameStatus.Playing) audio.fuse(state);
+    }
+    if (state.status !== gameStatus) {
+      if (state.status === GameStatus.RoundOver) audio.stinger(state.winnerId !== null && state.winnerId === client.playerId);
+      setGameStatus(state.status);
+    }
+  };
 
-    explosionsRef.current.forEach(exp => {
-       ctx.fillStyle = `rgba(255, 69, 0, ${exp.timer / EXPLOSION_DURATION_MS})`; 
-       exp.particles.forEach(p => ctx.fillText(EMOJIS.FIRE, p.x * TILE_SIZE + TILE_SIZE/2, p.y * TILE_SIZE + TILE_SIZE/2));
-    });
+  const update = (dt: number) => {
+    if (onlineRef.current) {
+      updateOnline(onlineRef.current);
+      return;
+    }
+    const state = stateRef.current;
+    if (!state || state.status !== GameStatus.Playing) {
+      endFrame(hubRef.current);
+      return;
+    }
 
-    enemiesRef.current.forEach(e => {
-        ctx.save();
-        ctx.translate(e.x, e.y);
-        if(e.direction.x < 0) ctx.scale(-1, 1);
-        ctx.fillText(EMOJIS.ENEMY, 0, 0);
-        ctx.restore();
+    // Each human reads their own bindings and the gamepad in the same slot
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const inputs: PlayerInputs = {};
+    let pauseToggled = false;
+    state.players.forEach(p => {
+      if (p.bot) return;
+      const actions = readActions(hubRef.current, p.slot, bindingsRef.current[p.slot], pads[p.slot] ?? null);
+      inputs[p.id] = toPlayerInput(actions);
+      pauseToggled ||= actions.pause;
     });
-
-    if (playerRef.current.alive && gameStatus === GameStatus.Playing) {
-        ctx.fillText(EMOJIS.PLAYER, playerRef.current.x, playerRef.current.y);
+    endFrame(hubRef.current);
+    if (pauseToggled) {
+      setPause(!pausedRef.current);
+      if (pausedRef.current) autosave();
+    }
+    if (pausedRef.current) return;
+
+    if (recorderRef.current) recordTick(recorderRef.current, state, inputs);
+    step(state, inputs, dt);
+    if (dailyRef.current) tallyTick(dailyRef.current.tally, state);
+    audio.play(state.events);
+    spokenRef.current.push(...describeEvents(state, Object.keys(inputs)));
+    if (state.status === GameStatus.Playing) audio.fuse(state);
+    else audio.stinger(state.status === GameStatus.RoundOver ? state.winnerId !== null : state.status !== GameStatus.Lost);
+    if (state.status !== GameStatus.Playing && campaignRef.current) {
+      campaignRef.current = resolveStage(campaignRef.current, state);
+      setCampaign(campaignRef.current);
+      // A daily run gets one go at the stage, time up included
+      if (dailyRef.current) finishDaily(state.status === GameStatus.CampaignComplete);
+    }
+    if (state.status === GameStatus.RoundOver && matchRef.current) {
+      matchRef.current = resolveRound(matchRef.current, state);
+      setMatch(matchRef.current);
     }
+    if (state.status !== GameStatus.Playing && isRunOver(state) && !dailyRef.current) discardSave();
+    if (state.status !== gameStatus) setGameStatus(state.status);
   };
 
+  // Fixed-timestep loop: the simulation always advances in TICK_MS steps and
+  // rendering interpolates between the last two.
   const render = (time: number) => {
-    const dt = time - lastTimeRef.current;
+    const elapsed = time - lastTimeRef.current;
+    accumulatorRef.current += elapsed;
     lastTimeRef.current = time;
-    update(dt);
-    if (canvasRef.current) {
-      const ctx = canvasRef.current.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-        draw(ctx);
+    let ticks = 0;
+    while (accumulatorRef.current >= TICK_MS && ticks < MAX_CATCH_UP_TICKS) {
+      if (stateRef.current) previousRef.current = snapshotPositions(stateRef.current);
+      update(TICK_MS);
+      accumulatorRef.current -= TICK_MS;
+      ticks++;
+    }
+    // After a stall (e.g. a background tab) drop the backlog instead of fast-forwarding
+    if (accumulatorRef.current >= TICK_MS) accumulatorRef.current = 0;
+    announce(liveRef.current, spokenRef.current);
+    spokenRef.current = [];
+
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx) {
+      fitCanvas(canvas);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const client = onlineRef.current?.client;
+      // Online, other bombers are drawn where the server last saw them
+      const view = client?.state ? onlineView(client, previousRef.current, time) : stateRef.current && { state: stateRef.current, previous: previousRef.current };
+      if (view) {
+        const { state, previous } = view;
+        const alpha = pausedRef.current ? 1 : accumulatorRef.current / TICK_MS;
+        const follow = client?.playerId ? (p: Player) => p.id === client.playerId : undefined;
+        const camera = followCamera(cameraRef.current, cameraTarget(state, previous, alpha, follow), elapsed);
+        const scale = canvas.width / camera.width;
+        cameraRef.current = camera;
+        const resolution = resolutionFor(canvas, viewSize(state.map.length, state.map[0].length));
+        rendererRef.current = rendererFor(rendererRef.current, graphicsRef.current.backend, resolution);
+        ctx.setTransform(scale, 0, 0, scale, -camera.x * scale, -camera.y * scale);
+        rendererRef.current.draw(ctx, state, currentTheme(), previous, alpha, drawOptions(graphicsRef.current));
       }
     }
+    const state = stateRef.current;
+    if (hudRef.current && state && campaignRef.current) {
+      hudRef.current.textContent = campaignHud(state, campaignRef.current);
+    } else if (hudRef.current && state && matchRef.current) {
+      const m = matchRef.current;
+      const scores = state.players.map(p => `${BOMBER_EMOJIS[p.slot]}${p.alive ? '' : '✖'} ${m.wins[p.id] ?? 0}`).join(' · ');
+      const clock = state.suddenDeath ? 'SUDDEN DEATH' : `⏱ ${formatTime(state.timeLeftMs ?? 0)}`;
+      hudRef.current.textContent = `Round ${m.round + 1} · ${scores} · ${clock}`;
+    }
     animationFrameId.current = requestAnimationFrame(render);
   };
 
   // --- Controls Handlers ---
-  const handleInputStart = (key: string) => { inputsRef.current[key as keyof typeof inputsRef.current] = true; };
-  const handleInputEnd = (key: string) => { inputsRef.current[key as keyof typeof inputsRef.current] = false; };
+  const handleAction = useCallback((action: InputAction, down: boolean) => touchAction(hubRef.current, action, down), []);
+  const swipeHandlers = useSwipeControls(handleAction);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space'].includes(e.code)) {
+      if (isBound(bindingsRef.current, e.code) && !isForUi(e)) {
         e.preventDefault();
-        inputsRef.current[e.code as keyof typeof inputsRef.current] = true;
+        keyDown(hubRef.current, e.code, e.repeat);
       }
     };
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space'].includes(e.code)) {
-        inputsRef.current[e.code as keyof typeof inputsRef.current] = false;
+      if (isBound(bindingsRef.current, e.code)) {
+        keyUp(hubRef.current, e.code);
       }
     };
+    // Keys released while the window is in the background never report keyup,
+    // and nobody is watching the board, so stop the game there. The tab may
+    // never come back, so this is also when the run gets saved.
+    const handleBlur = () => {
+      releaseAll(hubRef.current);
+      if (stateRef.current?.status === GameStatus.Playing && !onlineRef.current) setPause(true);
+      autosave();
+    };
+    const handleVisibility = () => {
+      if (document.hidden) handleBlur();
+    };
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibility);
     animationFrameId.current = requestAnimationFrame(render);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibility);
       if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
     };
   }, [gameStatus]);
@@ -406,66 +669,266 @@ const GameEngine: React.FC = () => {
     }
   }, [gameStatus, initGame]);
 
+  // Shared rule links set the rules and open them for a look: ?rules=<preset>
+  useEffect(() => {
+    const search = location.search;
+    if (!new URLSearchParams(search).has('rules')) return;
+    history.replaceState(null, '', location.pathname + location.hash);
+    try {
+      adoptRules(decodeRules(search)!);
+    } catch (e) {
+      setRulesError(e instanceof RulesFormatError ? `This link's rules were not applied: ${e.issues.join('; ')}` : String(e));
+    }
+    setShowingRules(true);
+  }, []);
+
+  // Shared links open straight into the viewer: #replay=<code>
+  useEffect(() => {
+    const code = location.hash.match(/^#replay=(.+)$/)?.[1];
+    if (!code) return;
+    history.replaceState(null, '', location.pathname + location.search);
+    try {
+      setReplay({ recording: decodeRecording(code), error: null });
+    } catch (e) {
+      setReplay({ recording: null, error: e instanceof ReplayFormatError ? e.message : String(e) });
+    }
+  }, []);
+
+  const dailyStreak = currentStreak(dailyHistory, dailyDate(new Date()));
+  const bombers = stateRef.current?.players ?? [];
+  const roundWinner = bombers.find(p => p.id === stateRef.current?.winnerId);
+  const champion = match ? bombers.find(p => p.id === matchWinner(match)) : undefined;
+  // Shown on the game over and campaign complete screens
+  const finalScore = campaign && !playTesting && !dailyRun && (
+    <>
+      <div className="text-xl mb-3">SCORE {campaign.score.toLocaleString()}</div>
+      {savedRank === null && qualifies(highScores, campaign.score)
+        ? <NameEntry score={campaign.score} onSubmit={submitScore} />
+        : <HighScores entries={highScores} highlight={savedRank ?? -1} />}
+    </>
+  );
+
+  if (replay) {
+    return <ReplayViewer recording={replay.recording} error={replay.error} graphics={graphics} onExit={() => setReplay(null)} />;
+  }
+
+  if (editingControls) {
+    return <InputSettings bindings={bindings} onChange={changeBindings} onClose={() => setEditingControls(false)} />;
+  }
+
+  if (editing) {
+    return <LevelEditor initialText={editorText} onPlayTest={playTest} onExit={closeEditor} />;
+  }
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-neutral-900 p-2 relative overflow-hidden select-none touch-none">
       <h1 className="text-2xl mb-2 text-emerald-400 font-bold z-10">BUNNY BOMBER</h1>
+      <div ref={hudRef} className="text-sm text-gray-300 mb-1 h-5"></div>
+      <div ref={liveRef} role="status" aria-live="polite" className="sr-only"></div>
       
-      <div className="relative border-4 border-emerald-800 rounded-lg shadow-2xl bg-neutral-800"
-           style={{ maxWidth: '100%', aspectRatio: `${CANVAS_WIDTH}/${CANVAS_HEIGHT}` }}>
+      {/* Portrait stacks the touch controls under the board; landscape puts them either side */}
+      <div className="flex flex-col landscape:flex-row items-center justify-center w-full landscape:gap-4">
+      <div className="relative border-4 border-emerald-800 rounded-lg shadow-2xl bg-neutral-800 shrink"
+           style={{
+             width: `min(${board.width}px, 100%, calc((100dvh - 7rem) * ${board.width / board.height}))`,
+             aspectRatio: `${board.width}/${board.height}`
+           }}>
         <canvas
           ref={canvasRef}
-          width={CANVAS_WIDTH}
-          height={CANVAS_HEIGHT}
-          className="w-full h-full object-contain"
+          role="img"
+          aria-label="Game board"
+          className="block w-full h-full touch-none"
+          {...swipeHandlers}
         />
         
         {/* Mobile Controls Overlay - Visible only on Touch devices via CSS/Media Queries logic usually, 
             but for React Preview we show them below or overlay if screen is small */}
         
-        {gameStatus === GameStatus.Menu && (
-          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-50">
-             <div className="text-5xl mb-2">🐰</div>
+        {gameStatus === GameStatus.Menu && showingScores && (
+          <Overlay label="High scores" onEscape={() => setShowingScores(false)}>
+             <h2 className="text-3xl mb-3 font-bold">HIGH SCORES</h2>
+             <HighScores entries={highScores} />
+             <button onClick={() => setShowingScores(false)} className="px-6 py-2 bg-gray-600 rounded text-lg">BACK</button>
+          </Overlay>
+        )}
+        {gameStatus === GameStatus.Menu && showingAudio && (
+          <Overlay label="Audio" onEscape={() => setShowingAudio(false)}>
+             <h2 className="text-3xl mb-1 font-bold">AUDIO</h2>
+             <AudioControls settings={audioSettings} onChange={changeAudio} />
+             <button onClick={() => setShowingAudio(false)} className="mt-4 px-6 py-2 bg-gray-600 rounded text-lg">BACK</button>
+          </Overlay>
+        )}
+        {gameStatus === GameStatus.Menu && showingAccess && (
+          <Overlay label="Accessibility" onEscape={() => setShowingAccess(false)} className="bg-black/80 gap-2">
+             <h2 className="text-3xl mb-2 font-bold">ACCESSIBILITY</h2>
+             <button onClick={cyclePalette} className="w-64 px-4 py-2 bg-gray-700 rounded">PALETTE: {PALETTE_LABELS[graphics.palette]}</button>
+             <button onClick={cycleMotion} className="w-64 px-4 py-2 bg-gray-700 rounded">MOTION: {motionLabel(graphics.reducedMotion)}</button>
+             <button onClick={toggleDangerZones} aria-pressed={graphics.dangerZones} className="w-64 px-4 py-2 bg-gray-700 rounded">
+               DANGER ZONES: {graphics.dangerZones ? 'ON' : 'OFF'}
+             </button>
+             <div className="text-xs text-gray-400 text-center max-w-xs">
+               Accessible palettes mark walls by shape: a cross for solid, a ring for breakable.
+               Danger zones hatch every tile a bomb is about to hit.
+             </div>
+             <button onClick={() => setShowingAccess(false)} className="mt-2 px-6 py-2 bg-gray-600 rounded text-lg">BACK</button>
+          </Overlay>
+        )}
+        {gameStatus === GameStatus.Menu && showingRules && (
+          <RulesMenu settings={rulesSettings} error={rulesError} onChange={changeRules}
+            onClose={() => { setShowingRules(false); setRulesError(null); }} />
+        )}
+        {gameStatus === GameStatus.Menu && choosingOnline && (
+          <OnlineLobby settings={onlineSettings} room={online?.room ?? null} you={online?.you ?? -1} connected={online?.connected ?? false}
+            error={online?.error ?? null} onCreate={createOnlineRoom} onJoin={joinOnlineRoom}
+            onStart={() => onlineRef.current && startOnlineMatch(onlineRef.current.client)} onLeave={leaveOnline} />
+        )}
+        {gameStatus === GameStatus.Menu && !choosingBattle && !showingScores && !showingAudio && !showingAccess && !showingRules && !choosingOnline && (
+          <Overlay label="Bunny Bomber main menu">
+             <div className="text-5xl mb-2" aria-hidden="true">🐰</div>
+             {hasSave && <button onClick={continueGame} className="mb-3 px-8 py-3 bg-sky-700 rounded font-bold text-xl shadow-lg active:scale-95">CONTINUE</button>}
              <button onClick={initGame} className="px-8 py-4 bg-emerald-600 rounded font-bold text-xl shadow-lg active:scale-95">START</button>
-          </div>
+             <button onClick={startDaily} className="mt-3 px-6 py-2 bg-violet-700 rounded text-lg">
+               DAILY CHALLENGE{dailyStreak > 0 ? ` 🔥${dailyStreak}` : ''}
+             </button>
+             <button onClick={() => setChoosingBattle(true)} className="mt-3 px-6 py-2 bg-amber-600 rounded text-lg">BATTLE</button>
+             <button onClick={() => setChoosingOnline(true)} className="mt-3 px-6 py-2 bg-amber-700 rounded text-lg">ONLINE</button>
+             <button onClick={() => setShowingRules(true)} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">RULES: {PRESET_NAMES[rulesSettings.preset].toUpperCase()}</button>
+             <button onClick={() => setShowingScores(true)} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">HIGH SCORES</button>
+             <button onClick={openEditor} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">LEVEL EDITOR</button>
+             <button onClick={() => setEditingControls(true)} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">CONTROLS</button>
+             <div className="flex gap-2 mt-3">
+               <button onClick={cycleBackend} className="px-3 py-1 bg-gray-700 rounded text-sm">GRAPHICS: {BACKEND_LABELS[graphics.backend]}</button>
+               <button onClick={cycleTheme} className="px-3 py-1 bg-gray-700 rounded text-sm">THEME: {graphics.theme === null ? 'LEVEL' : LevelTheme[graphics.theme].toUpperCase()}</button>
+               <button onClick={() => setShowingAudio(true)} className="px-3 py-1 bg-gray-700 rounded text-sm">AUDIO</button>
+               <button onClick={() => setShowingAccess(true)} className="px-3 py-1 bg-gray-700 rounded text-sm">ACCESSIBILITY</button>
+             </div>
+             <button onClick={() => setReplay({ recording: null, error: null })} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">LOAD REPLAY</button>
+          </Overlay>
+        )}
+        {gameStatus === GameStatus.Menu && choosingBattle && (
+          <Overlay label="Battle setup" onEscape={() => setChoosingBattle(false)} className="bg-black/80 gap-2">
+             <h2 className="text-3xl mb-2 font-bold">BATTLE</h2>
+             <div className="flex items-center gap-2">
+               <span className="w-24">Players</span>
+               <button onClick={() => changeHumans(-1)} aria-label="Fewer players" className="w-8 bg-gray-700 rounded">-</button>
+               <span className="w-28 text-center" aria-live="polite" aria-label={`${battleSetup.humans} players`}>{BOMBER_EMOJIS.slice(0, battleSetup.humans).join('')}</span>
+               <button onClick={() => changeHumans(1)} aria-label="More players" className="w-8 bg-gray-700 rounded">+</button>
+             </div>
+             <div className="flex items-center gap-2">
+               <span className="w-24">CPUs</span>
+               <button onClick={() => changeRivals(-1)} aria-label="Fewer CPUs" className="w-8 bg-gray-700 rounded">-</button>
+               <span className="w-28 text-center" aria-live="polite">{battleSetup.rivals.length}</span>
+               <button onClick={() => changeRivals(1)} aria-label="More CPUs" className="w-8 bg-gray-700 rounded">+</button>
+             </div>
+             <div className="flex gap-2">
+               <button onClick={cycleCpuLevel} className="px-4 py-1 bg-gray-700 rounded">CPU: {CPU_LABELS[cpuLevel]}</button>
+               <button onClick={cycleWinsNeeded} className="px-4 py-1 bg-gray-700 rounded">BEST OF {battleSetup.winsNeeded * 2 - 1}</button>
+             </div>
+             <button onClick={cycleArena} className="px-4 py-1 bg-gray-700 rounded">
+               ARENA: {ARENA_SIZES[arenaIndex]?.label ?? 'CUSTOM'} {battleSetup.cols}×{battleSetup.rows}
+             </button>
+             <div className="text-xs text-gray-400 text-center">
+               {bindings.slice(0, battleSetup.humans).map((b, i) =>
+                 `${BOMBER_EMOJIS[i]} ${keyLabel(b.up)}${keyLabel(b.left)}${keyLabel(b.down)}${keyLabel(b.right)} + ${keyLabel(b.bomb)}`).join(' · ')}
+               {' · or gamepads'}
+             </div>
+             <button onClick={startBattle} disabled={!canStartBattle} className="mt-2 px-8 py-3 bg-amber-600 rounded font-bold text-xl disabled:opacity-40">FIGHT</button>
+             <button onClick={() => setChoosingBattle(false)} className="px-6 py-1 bg-gray-600 rounded">BACK</button>
+          </Overlay>
         )}
-        {(gameStatus === GameStatus.Lost || gameStatus === GameStatus.Won) && (
-           <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-white z-50">
-             <h2 className="text-4xl mb-4 font-bold">{gameStatus === GameStatus.Won ? 'WIN!' : 'GAME OVER'}</h2>
+        {gameStatus === GameStatus.RoundOver && match && (
+           <Overlay label={champion ? `${BOMBER_NAMES[champion.slot]} wins the match` : roundWinner ? `${BOMBER_NAMES[roundWinner.slot]} wins the round` : 'Draw'}>
+             <h2 className="text-4xl mb-2 font-bold">
+               {champion ? `${BOMBER_EMOJIS[champion.slot]} WINS THE MATCH!` : roundWinner ? `${BOMBER_EMOJIS[roundWinner.slot]} WINS!` : 'DRAW!'}
+             </h2>
+             <div className="flex gap-4 text-2xl mb-4">
+               {bombers.map(p => <span key={p.id}>{BOMBER_EMOJIS[p.slot]} {match.wins[p.id] ?? 0}</span>)}
+             </div>
+             {onlineRef.current && !isHost(onlineRef.current.client)
+               ? <div className="text-gray-300">Waiting for the host…</div>
+               : champion
+               ? <button onClick={onlineRef.current ? () => startOnlineMatch(onlineRef.current!.client) : startBattle} className="px-6 py-3 bg-amber-600 rounded text-lg">REMATCH</button>
+               : <button onClick={onlineRef.current ? () => startNextRound(onlineRef.current!.client) : startRound} className="px-8 py-4 bg-emerald-600 rounded font-bold text-xl shadow-lg active:scale-95">NEXT ROUND</button>}
+             {!onlineRef.current && <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>}
+             <button onClick={onlineRef.current ? leaveOnline : backToMenu} className="mt-3 px-6 py-2 bg-gray-700 rounded text-lg">MENU</button>
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.Playing && paused && (
+           <Overlay label="Paused" onEscape={() => setPause(false)} className="bg-black/70">
+             <h2 className="text-4xl mb-4 font-bold">PAUSED</h2>
+             <button onClick={() => setPause(false)} className="px-8 py-4 bg-emerald-600 rounded font-bold text-xl shadow-lg active:scale-95">RESUME</button>
+             <button onClick={restart} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">{match ? 'RESTART ROUND' : 'RESTART STAGE'}</button>
+             <button onClick={() => setEditingControls(true)} className="mt-3 px-6 py-2 bg-gray-600 rounded text-lg">CONTROLS</button>
+             <button onClick={backToMenu} className="mt-3 px-6 py-2 bg-gray-700 rounded text-lg">QUIT TO MENU</button>
+             <AudioControls settings={audioSettings} onChange={changeAudio} />
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.Won && (
+           <Overlay label="You win">
+             <h2 className="text-4xl mb-4 font-bold">WIN!</h2>
              <button onClick={initGame} className="px-6 py-3 bg-gray-600 rounded text-lg">RETRY</button>
-           </div>
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.Lost && campaign && dailyRun && (
+           <Overlay label={isGameOver(campaign) ? 'Daily challenge over' : 'Daily challenge time up'}>
+             <h2 className="text-4xl mb-2 font-bold">{isGameOver(campaign) ? 'GAME OVER' : 'TIME UP!'}</h2>
+             <DailySummary result={dailyRun} history={dailyHistory} />
+             <button onClick={startDaily} className="px-6 py-3 bg-gray-600 rounded text-lg">RETRY</button>
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.Lost && campaign && !dailyRun && (
+           <Overlay label={isGameOver(campaign) ? 'Game over' : 'Time up'}>
+             {isGameOver(campaign) ? (
+               <>
+                 <h2 className="text-4xl mb-4 font-bold">GAME OVER</h2>
+                 {finalScore}
+                 <button onClick={playTesting ? () => playTest(currentLevel(campaign), editorText ?? '') : initGame} className="px-6 py-3 bg-gray-600 rounded text-lg">RETRY</button>
+               </>
+             ) : (
+               <>
+                 <h2 className="text-4xl mb-2 font-bold">TIME UP!</h2>
+                 <div className="text-lg mb-4">{'❤️'.repeat(campaign.lives)}</div>
+                 <button onClick={startStage} className="px-6 py-3 bg-gray-600 rounded text-lg">TRY AGAIN</button>
+               </>
+             )}
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+             {playTesting && <button onClick={openEditor} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">EDIT</button>}
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.StageClear && campaign && (
+           <Overlay label="Stage clear">
+             <h2 className="text-4xl mb-2 font-bold">STAGE CLEAR!</h2>
+             <div className="text-lg mb-4">Next: {currentLevel(campaign).name}</div>
+             <button onClick={startStage} className="px-8 py-4 bg-emerald-600 rounded font-bold text-xl shadow-lg active:scale-95">NEXT</button>
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.CampaignComplete && dailyRun && (
+           <Overlay label="Daily challenge clear">
+             <h2 className="text-4xl mb-2 font-bold">DAILY CLEAR!</h2>
+             <div className="text-5xl mb-2" aria-hidden="true">🏆</div>
+             <DailySummary result={dailyRun} history={dailyHistory} />
+             <button onClick={startDaily} className="px-6 py-3 bg-gray-600 rounded text-lg">PLAY AGAIN</button>
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+           </Overlay>
+        )}
+        {gameStatus === GameStatus.CampaignComplete && !dailyRun && (
+           <Overlay label={playTesting ? 'Level clear' : 'Campaign complete'}>
+             <h2 className="text-4xl mb-2 font-bold">{playTesting ? 'LEVEL CLEAR!' : 'CAMPAIGN COMPLETE!'}</h2>
+             <div className="text-5xl mb-4" aria-hidden="true">🏆</div>
+             {finalScore}
+             {playTesting
+               ? <button onClick={openEditor} className="px-6 py-3 bg-sky-700 rounded text-lg">EDIT</button>
+               : <button onClick={initGame} className="px-6 py-3 bg-gray-600 rounded text-lg">PLAY AGAIN</button>}
+             <button onClick={watchReplay} className="mt-3 px-6 py-2 bg-sky-700 rounded text-lg">WATCH REPLAY</button>
+           </Overlay>
         )}
       </div>
 
       {/* Virtual Controls for Mobile */}
-      <div className="flex w-full justify-between items-end px-4 mt-4 max-w-lg z-50 h-32">
-        {/* D-Pad */}
-        <div className="relative w-32 h-32 bg-white/10 rounded-full">
-            <button className="absolute top-0 left-10 w-10 h-10 bg-white/20 rounded-t-lg active:bg-emerald-500/50"
-              onMouseDown={() => handleInputStart('ArrowUp')} onMouseUp={() => handleInputEnd('ArrowUp')}
-              onTouchStart={(e) => { e.preventDefault(); handleInputStart('ArrowUp'); }} onTouchEnd={(e) => { e.preventDefault(); handleInputEnd('ArrowUp'); }}
-            />
-            <button className="absolute bottom-0 left-10 w-10 h-10 bg-white/20 rounded-b-lg active:bg-emerald-500/50"
-              onMouseDown={() => handleInputStart('ArrowDown')} onMouseUp={() => handleInputEnd('ArrowDown')}
-              onTouchStart={(e) => { e.preventDefault(); handleInputStart('ArrowDown'); }} onTouchEnd={(e) => { e.preventDefault(); handleInputEnd('ArrowDown'); }}
-            />
-            <button className="absolute left-0 top-10 w-10 h-10 bg-white/20 rounded-l-lg active:bg-emerald-500/50"
-              onMouseDown={() => handleInputStart('ArrowLeft')} onMouseUp={() => handleInputEnd('ArrowLeft')}
-              onTouchStart={(e) => { e.preventDefault(); handleInputStart('ArrowLeft'); }} onTouchEnd={(e) => { e.preventDefault(); handleInputEnd('ArrowLeft'); }}
-            />
-            <button className="absolute right-0 top-10 w-10 h-10 bg-white/20 rounded-r-lg active:bg-emerald-500/50"
-              onMouseDown={() => handleInputStart('ArrowRight')} onMouseUp={() => handleInputEnd('ArrowRight')}
-              onTouchStart={(e) => { e.preventDefault(); handleInputStart('ArrowRight'); }} onTouchEnd={(e) => { e.preventDefault(); handleInputEnd('ArrowRight'); }}
-            />
-        </div>
-
-        {/* Action Button */}
-        <button 
-          className="w-24 h-24 bg-red-500/30 border-2 border-white/30 rounded-full flex items-center justify-center text-4xl active:bg-red-500/80 active:scale-95 transition-all"
-          onMouseDown={() => handleInputStart('Space')} onMouseUp={() => handleInputEnd('Space')}
-          onTouchStart={(e) => { e.preventDefault(); handleInputStart('Space'); }} onTouchEnd={(e) => { e.preventDefault(); handleInputEnd('Space'); }}
-        >
-          💣
-        </button>
+      <TouchControls onAction={handleAction} />
       </div>
       
       <div className="text-gray-500 text-xs mt-2">Mobile controls visible below game area</div>
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { HighScoreEntry } from '../types';
+import { HIGH_SCORE_NAME_LENGTH } from '../constants';
+
+export const NameEntry: React.FC<{ score: number; onSubmit: (name: string) => void }> = ({ score, onSubmit }) => {
+  const [name, setName] = useState('');
+  return (
+    <form className="flex flex-col items-center gap-2 mb-3" onSubmit={e => { e.preventDefault(); onSubmit(name); }}>
+      <div className="text-amber-300 font-bold">NEW HIGH SCORE! {score.toLocaleString()}</div>
+      <div className="flex gap-2">
+        <input autoFocus value={name} maxLength={HIGH_SCORE_NAME_LENGTH} placeholder="Your name" aria-label="Your name"
+          onChange={e => setName(e.target.value)}
+          className="w-40 px-2 py-1 rounded bg-neutral-800 border border-gray-600 text-white" />
+        <button type="submit" className="px-4 py-1 bg-emerald-600 rounded font-bold">SAVE</button>
+      </div>
+    </form>
+  );
+};
+
+const HighScores: React.FC<{ entries: HighScoreEntry[]; highlight?: number }> = ({ entries, highlight = -1 }) => {
+  if (entries.length === 0) return <div className="text-gray-400 mb-3">No high scores yet</div>;
+  return (
+    <table className="text-sm mb-3">
+      <tbody>
+        {entries.map((e, i) => (
+          <tr key={i} className={i === highlight ? 'text-amber-300 font-bold' : 'text-gray-200'}>
+            <td className="pr-2 text-right">{i + 1}.</td>
+            <td className="pr-4">{e.name}</td>
+            <td className="pr-4 text-right">{e.score.toLocaleString()}</td>
+            <td className="text-gray-400 text-xs">stage {e.stage}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default HighScores;
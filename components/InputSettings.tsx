@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { InputAction, KeyBinding } from '../types';
+import { BOMBER_EMOJIS, BOMBER_NAMES, KEY_BINDINGS } from '../constants';
+import { INPUT_ACTIONS, keyLabel, rebind } from './controls';
+
+interface InputSettingsProps {
+  bindings: KeyBinding[];
+  onChange: (bindings: KeyBinding[]) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  up: 'Up', down: 'Down', left: 'Left', right: 'Right', bomb: 'Bomb', detonate: 'Detonate', pause: 'Pause'
+};
+
+const InputSettings: React.FC<InputSettingsProps> = ({ bindings, onChange, onClose }) => {
+  const [listening, setListening] = useState<{ slot: number; action: InputAction } | null>(null);
+
+  // The next key pressed is the new binding
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      // Escape backs out, except on the pause row where it is the usual key
+      if (e.code !== 'Escape' || listening.action === 'pause') onChange(rebind(bindings, listening.slot, listening.action, e.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-neutral-900 p-2 text-white select-none">
+      <h1 className="text-2xl mb-2 text-emerald-400 font-bold">CONTROLS</h1>
+      <table className="text-sm border-separate border-spacing-1">
+        <thead>
+          <tr>
+            <th />
+            {bindings.map((_, slot) => <th key={slot} className="text-2xl" aria-label={BOMBER_NAMES[slot]}>{BOMBER_EMOJIS[slot]}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(action => (
+            <tr key={action}>
+              <td className="pr-2 text-gray-300">{ACTION_LABELS[action]}</td>
+              {bindings.map((binding, slot) => {
+                const waiting = listening?.slot === slot && listening.action === action;
+                return (
+                  <td key={slot}>
+                    <button onClick={() => setListening({ slot, action })}
+                      aria-label={`${BOMBER_NAMES[slot]} ${ACTION_LABELS[action]}: ${waiting ? 'press a key' : keyLabel(binding[action])}`}
+                      className={`w-24 px-2 py-1 rounded ${waiting ? 'bg-amber-600 motion-safe:animate-pulse' : 'bg-gray-700'}`}>
+                      {waiting ? 'press key' : keyLabel(binding[action])}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="text-xs text-gray-400 mt-2 text-center max-w-md">
+        Gamepad N plays as bomber N: stick or d-pad to move, A bomb, B detonate, Start pause.
+        On touch screens, swipe the board to walk and tap it to drop a bomb.
+      </div>
+      <div className="flex gap-2 mt-3">
+        {listening && <button onClick={() => setListening(null)} className="px-4 py-2 bg-gray-600 rounded">CANCEL</button>}
+        <button onClick={() => onChange(KEY_BINDINGS.map(b => ({ ...b })))} className="px-4 py-2 bg-gray-600 rounded">RESET</button>
+        <button onClick={onClose} className="px-6 py-2 bg-emerald-600 rounded font-bold">DONE</button>
+      </div>
+    </div>
+  );
+};
+
+export default InputSettings;
@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TileType, EnemyKind, LevelDefinition, LevelTheme, PowerUpType } from '../types';
+import { TILE_SIZE, EMOJIS, ENEMY_ARCHETYPES, POWER_UP_EMOJIS, THEME_COLORS, TILE_EMOJIS } from '../constants';
+import {
+  ENEMY_CHARS,
+  ITEM_CHARS,
+  TILE_CHARS,
+  LevelFormatError,
+  LevelSource,
+  layoutToGrid,
+  parseLevel,
+  serializeSource,
+  toLevelDefinition,
+  validateLayout
+} from '../engine/levels';
+import { isPillar } from '../engine/mapgen';
+import { drawPowerUp, drawTileLayer } from './tiles';
+
+interface LevelEditorProps {
+  initialText: string | null;
+  onPlayTest: (level: LevelDefinition, text: string) => void;
+  onExit: (text: string) => void;
+}
+
+type Meta = Omit<LevelSource, 'grid'>;
+
+const MIN_SIZE = 5;
+const MAX_SIZE = 31;
+const MAX_HISTORY = 100;
+
+const BRUSHES = [
+  { ch: '.', label: 'Empty', icon: '🟩' },
+  { ch: '#', label: 'Hard wall', icon: EMOJIS.HARD_WALL },
+  { ch: '+', label: 'Soft wall', icon: EMOJIS.SOFT_WALL },
+  ...Object.entries(TILE_CHARS).filter(([, tile]) => tile in TILE_EMOJIS).map(([ch, tile]) => ({ ch, label: `Tile: ${TileType[tile]}`, icon: TILE_EMOJIS[tile]! })),
+  { ch: 'P', label: 'Player spawn', icon: EMOJIS.PLAYER },
+  ...Object.entries(ENEMY_CHARS).map(([ch, kind]) => ({ ch, label: `Enemy: ${EnemyKind[kind]}`, icon: ENEMY_ARCHETYPES[kind].emoji })),
+  { ch: 'D', label: 'Exit door', icon: EMOJIS.EXIT },
+  ...Object.entries(ITEM_CHARS).map(([ch, type]) => ({ ch, label: `Power-up: ${PowerUpType[type]}`, icon: POWER_UP_EMOJIS[type] })),
+];
+
+const blankGrid = (rows: number, cols: number) => {
+  return Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => isPillar(rows, cols, r, c) ? '#' : '.').join('')
+  );
+};
+
+const DEFAULT_META: Meta = { id: 'my-level', name: 'My Level', theme: LevelTheme.Meadow, timeLimitMs: 180000 };
+
+const newGrid = () => {
+  const grid = blankGrid(13, 15);
+  grid[1] = '#P' + grid[1].slice(2);
+  return grid;
+};
+
+const tileOf = (ch: string) => {
+  if (ch in TILE_CHARS) return TILE_CHARS[ch];
+  if (ch === 'D' || ch in ITEM_CHARS) return TileType.SoftWall;
+  return TileType.Empty;
+};
+
+// Keeps whatever fits, walls in the new border and fills the rest with grass.
+const resizeGrid = (grid: string[], rows: number, cols: number) => {
+  return Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => {
+      if (r === 0 || r === rows - 1 || c === 0 || c === cols - 1) return '#';
+      return grid[r]?.[c] ?? '.';
+    }).join('')
+  );
+};
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ initialText, onPlayTest, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [meta, setMeta] = useState<Meta>(DEFAULT_META);
+  const [grid, setGrid] = useState<string[]>(newGrid);
+  const [past, setPast] = useState<string[][]>([]);
+  const [future, setFuture] = useState<string[][]>([]);
+  const [brush, setBrush] = useState('#');
+  const [issues, setIssues] = useState<string[] | null>(null);
+  const [text, setText] = useState('');
+  const [size, setSize] = useState({ rows: 13, cols: 15 });
+  const paintingRef = useRef(false);
+
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const currentText = () => serializeSource({ ...meta, grid });
+
+  const loadText = (source: string) => {
+    try {
+      const { source: parsed, layout } = parseLevel(source);
+      const loaded = layoutToGrid(layout);
+      setMeta({ id: parsed.id, name: parsed.name, theme: parsed.theme, timeLimitMs: parsed.timeLimitMs });
+      commit(loaded);
+      setSize({ rows: loaded.length, cols: loaded[0].length });
+      setIssues(null);
+    } catch (e) {
+      setIssues(e instanceof LevelFormatError ? e.issues : [(e as Error).message]);
+    }
+  };
+
+  useEffect(() => {
+    if (initialText) loadText(initialText);
+  }, []);
+
+  // --- History ---
+  const commit = (next: string[]) => {
+    setPast(p => [...p.slice(-MAX_HISTORY + 1), grid]);
+    setFuture([]);
+    setGrid(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setFuture(f => [grid, ...f]);
+    setGrid(past[past.length - 1]);
+    setPast(p => p.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast(p => [...p, grid]);
+    setGrid(future[0]);
+    setFuture(f => f.slice(1));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).tagName === 'TEXTAREA' || (e.target as HTMLElement).tagName === 'INPUT') return;
+      if (e.key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      if (e.key === 'y' || (e.key === 'z' && e.shiftKey)) { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- Painting ---
+  const paint = (source: string[], r: number, c: number) => {
+    if (source[r]?.[c] === undefined || source[r][c] === brush) return source;
+    const cells = source.map(line => [...line]);
+    // Spawn and door are unique, so placing one moves it
+    if (brush === 'P' || brush === 'D') {
+      cells.forEach(line => line.forEach((ch, i) => {
+        if (ch === brush) line[i] = brush === 'D' ? '+' : '.';
+      }));
+    }
+    cells[r][c] = brush;
+    return cells.map(line => line.join(''));
+  };
+
+  const cellAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      r: Math.floor((e.clientY - rect.top) / rect.height * rows),
+      c: Math.floor((e.clientX - rect.left) / rect.width * cols),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    paintingRef.current = true;
+    const { r, c } = cellAt(e);
+    commit(paint(grid, r, c));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!paintingRef.current) return;
+    const { r, c } = cellAt(e);
+    // Strokes count as one undo step, so drag updates skip the history
+    setGrid(g => paint(g, r, c));
+  };
+
+  const handlePointerUp = () => { paintingRef.current = false; };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    drawTileLayer(ctx, grid.map(line => [...line].map(tileOf)), THEME_COLORS[meta.theme]);
+    grid.forEach((line, r) => [...line].forEach((ch, c) => {
+      const x = c * TILE_SIZE + TILE_SIZE / 2, y = r * TILE_SIZE + TILE_SIZE / 2;
+      if (ch === 'P') ctx.fillText(EMOJIS.PLAYER, x, y);
+      if (ch in ENEMY_CHARS) ctx.fillText(ENEMY_ARCHETYPES[ENEMY_CHARS[ch]].emoji, x, y);
+      if (ch === 'D' || ch in ITEM_CHARS) {
+        ctx.globalAlpha = 0.8;
+        if (ch === 'D') ctx.fillText(EMOJIS.EXIT, x, y);
+        else drawPowerUp(ctx, ITEM_CHARS[ch], x, y);
+        ctx.globalAlpha = 1;
+      }
+    }));
+  }, [grid, meta.theme]);
+
+  // --- Actions ---
+  const check = () => {
+    try {
+      const { source, layout } = parseLevel(currentText());
+      const found = validateLayout(layout);
+      setIssues(found);
+      return found.length === 0 ? toLevelDefinition(source, layout) : null;
+    } catch (e) {
+      setIssues(e instanceof LevelFormatError ? e.issues : [(e as Error).message]);
+      return null;
+    }
+  };
+
+  const playTest = () => {
+    const level = check();
+    if (level) onPlayTest(level, currentText());
+  };
+
+  const applySize = () => {
+    const r = Math.min(MAX_SIZE, Math.max(MIN_SIZE, size.rows));
+    const c = Math.min(MAX_SIZE, Math.max(MIN_SIZE, size.cols));
+    setSize({ rows: r, cols: c });
+    commit(resizeGrid(grid, r, c));
+  };
+
+  const download = () => {
+    const blob = new Blob([currentText()], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${meta.id || 'level'}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text().then(content => {
+      setText(content);
+      loadText(content);
+    });
+    e.target.value = '';
+  };
+
+  const inputClass = 'bg-neutral-700 rounded px-2 py-1 text-white';
+  const buttonClass = 'px-3 py-1 bg-gray-600 rounded text-sm disabled:opacity-40 active:scale-95';
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-neutral-900 p-2 text-white select-none">
+      <h1 className="text-2xl mb-2 text-emerald-400 font-bold">LEVEL EDITOR</h1>
+
+      <div className="flex flex-wrap gap-2 mb-2 justify-center text-sm">
+        <label>id <input className={`${inputClass} w-28`} value={meta.id} onChange={e => setMeta({ ...meta, id: e.target.value })} /></label>
+        <label>name <input className={`${inputClass} w-36`} value={meta.name} onChange={e => setMeta({ ...meta, name: e.target.value })} /></label>
+        <label>theme <select className={inputClass} value={meta.theme} onChange={e => setMeta({ ...meta, theme: Number(e.target.value) })}>
+          {Object.keys(THEME_COLORS).map(t => <option key={t} value={t}>{LevelTheme[Number(t)]}</option>)}
+        </select></label>
+        <label>time (s) <input type="number" step={1} className={`${inputClass} w-20`} value={meta.timeLimitMs / 1000}
+          onChange={e => setMeta({ ...meta, timeLimitMs: Math.max(1, Math.round(Number(e.target.value))) * 1000 })} /></label>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-2 justify-center">
+        {BRUSHES.map(b => (
+          <button key={b.ch} title={`${b.label} (${b.ch})`} onClick={() => setBrush(b.ch)}
+            className={`w-10 h-10 rounded text-xl ${brush === b.ch ? 'bg-emerald-600' : 'bg-neutral-700'}`}>
+            {b.icon}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-2 justify-center items-center text-sm">
+        <button className={buttonClass} onClick={undo} disabled={past.length === 0}>↶ Undo</button>
+        <button className={buttonClass} onClick={redo} disabled={future.length === 0}>↷ Redo</button>
+        <label>rows <input type="number" className={`${inputClass} w-14`} value={size.rows} onChange={e => setSize({ ...size, rows: Number(e.target.value) })} /></label>
+        <label>cols <input type="number" className={`${inputClass} w-14`} value={size.cols} onChange={e => setSize({ ...size, cols: Number(e.target.value) })} /></label>
+        <button className={buttonClass} onClick={applySize}>Resize</button>
+        <button className={buttonClass} onClick={() => { commit(blankGrid(rows, cols)); }}>Clear</button>
+      </div>
+
+      <div className="relative border-4 border-emerald-800 rounded-lg shadow-2xl bg-neutral-800"
+           style={{ maxWidth: '100%', aspectRatio: `${cols * TILE_SIZE}/${rows * TILE_SIZE}` }}>
+        <canvas
+          ref={canvasRef}
+          width={cols * TILE_SIZE}
+          height={rows * TILE_SIZE}
+          className="w-full h-full object-contain touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-2 justify-center">
+        <button className="px-4 py-2 bg-sky-700 rounded font-bold" onClick={check}>VALIDATE</button>
+        <button className="px-4 py-2 bg-emerald-600 rounded font-bold" onClick={playTest}>PLAY-TEST</button>
+        <button className="px-4 py-2 bg-gray-600 rounded font-bold" onClick={() => onExit(currentText())}>MENU</button>
+      </div>
+
+      {issues && (
+        <ul className={`mt-2 text-sm max-w-lg ${issues.length === 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+          {issues.length === 0 ? <li>Level is valid ✔</li> : issues.map((issue, i) => <li key={i}>• {issue}</li>)}
+        </ul>
+      )}
+
+      <div className="flex flex-col w-full max-w-lg mt-3 gap-1">
+        <textarea className="bg-neutral-800 font-mono text-xs p-2 rounded h-40 select-text" spellCheck={false}
+          value={text} onChange={e => setText(e.target.value)} placeholder="Level text" />
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button className={buttonClass} onClick={() => setText(currentText())}>Export ↓</button>
+          <button className={buttonClass} onClick={() => loadText(text)}>Import ↑</button>
+          <button className={buttonClass} onClick={() => navigator.clipboard?.writeText(currentText())}>Copy</button>
+          <button className={buttonClass} onClick={download}>Download .txt</button>
+          <button className={buttonClass} onClick={() => fileRef.current?.click()}>Open file…</button>
+          <input ref={fileRef} type="file" accept=".txt,.json,text/plain,application/json" className="hidden" onChange={openFile} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
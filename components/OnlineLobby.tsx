@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { RoomInfo } from '../types';
+import { BOMBER_EMOJIS, HIGH_SCORE_NAME_LENGTH, MAX_BOMBERS, ROOM_CODE_LENGTH } from '../constants';
+import { PRESET_NAMES, presetOf } from '../engine/rules';
+import { OnlineSettings } from './online';
+import Overlay from './Overlay';
+
+interface OnlineLobbyProps {
+  settings: OnlineSettings;
+  room: RoomInfo | null;
+  you: number;
+  connected: boolean;
+  error: string | null;
+  onCreate: (settings: OnlineSettings) => void;
+  onJoin: (settings: OnlineSettings, code: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+const fieldClass = 'w-44 px-2 py-1 rounded bg-neutral-800 border border-gray-600 text-white';
+
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({ settings, room, you, connected, error, onCreate, onJoin, onStart, onLeave }) => {
+  const [server, setServer] = useState(settings.server);
+  const [name, setName] = useState(settings.name);
+  const [code, setCode] = useState('');
+  const edited = { ...settings, server: server.trim(), name: name.trim() };
+
+  if (!room) {
+    return (
+      <Overlay label="Online" onEscape={onLeave} className="bg-black/80 gap-2">
+        <h2 className="text-3xl mb-2 font-bold">ONLINE</h2>
+        <label className="flex items-center gap-2">
+          <span className="w-16 text-gray-300">Server</span>
+          <input value={server} onChange={e => setServer(e.target.value)} className={fieldClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 text-gray-300">Name</span>
+          <input value={name} maxLength={HIGH_SCORE_NAME_LENGTH} placeholder="Your name" onChange={e => setName(e.target.value)} className={fieldClass} />
+        </label>
+        <button onClick={() => onCreate(edited)} className="mt-2 px-8 py-3 bg-emerald-600 rounded font-bold text-xl">CREATE ROOM</button>
+        <div className="flex gap-2 mt-1">
+          <input value={code} maxLength={ROOM_CODE_LENGTH} placeholder="CODE" aria-label="Room code" onChange={e => setCode(e.target.value.toUpperCase())}
+            className="w-24 px-2 py-1 rounded bg-neutral-800 border border-gray-600 text-white text-center tracking-widest" />
+          <button onClick={() => onJoin(edited, code)} disabled={code.length !== ROOM_CODE_LENGTH} className="px-6 py-1 bg-amber-600 rounded disabled:opacity-40">JOIN</button>
+        </div>
+        {settings.room && settings.token && (
+          <button onClick={() => onJoin(edited, settings.room!)} className="px-6 py-1 bg-sky-700 rounded">REJOIN {settings.room}</button>
+        )}
+        {error && <div role="alert" className="text-red-400 text-sm">{error}</div>}
+        <button onClick={onLeave} className="mt-2 px-6 py-1 bg-gray-600 rounded">BACK</button>
+      </Overlay>
+    );
+  }
+
+  const host = room.members[you]?.host ?? false;
+  const bombers = room.members.length + room.setup.rivals.length;
+  return (
+    <Overlay label={`Online room ${room.code}`} className="bg-black/80 gap-2">
+      <div className="text-gray-300 text-sm">ROOM CODE</div>
+      <div className="text-5xl font-bold tracking-widest mb-2">{room.code}</div>
+      <ul className="text-lg">
+        {room.members.map((m, i) => (
+          <li key={i} className={i === you ? 'text-amber-300' : ''}>
+            {BOMBER_EMOJIS[i] ?? '👀'} {m.name}{m.host ? ' ⭐' : ''}{m.connected ? '' : ' (offline)'}
+          </li>
+        ))}
+        {room.setup.rivals.map((_, i) => <li key={`cpu${i}`} className="text-gray-400">🤖 CPU</li>)}
+      </ul>
+      <div className="text-xs text-gray-400">
+        {room.setup.cols}×{room.setup.rows} arena · best of {room.setup.winsNeeded * 2 - 1} · {PRESET_NAMES[presetOf(room.setup.rules)]} rules · {bombers}/{MAX_BOMBERS} bombers
+      </div>
+      {!connected && <div role="status" className="text-amber-300 text-sm">Reconnecting…</div>}
+      {room.playing && <div className="text-gray-300 text-sm">A match is on; you join the next one</div>}
+      {host
+        ? <button onClick={onStart} disabled={bombers < 2} className="mt-2 px-8 py-3 bg-amber-600 rounded font-bold text-xl disabled:opacity-40">START</button>
+        : <div className="mt-2 text-gray-300">Waiting for the host…</div>}
+      {error && <div role="alert" className="text-red-400 text-sm">{error}</div>}
+      <button onClick={onLeave} className="px-6 py-1 bg-gray-600 rounded">LEAVE</button>
+    </Overlay>
+  );
+};
+
+export default OnlineLobby;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+
+interface OverlayProps {
+  label: string; // Read out when the overlay opens
+  onEscape?: () => void;
+  className?: string; // Backdrop and spacing
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), a[href]';
+
+// Arrow keys on these belong to the control itself
+const ownsArrows = (el: Element | null) => el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement;
+
+// A menu screen over the board. It takes the focus when it opens, keeps Tab
+// inside it and lets the arrow keys walk its buttons, so every menu works
+// from the keyboard alone.
+const Overlay: React.FC<OverlayProps> = ({ label, onEscape, className = 'bg-black/80', children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  // Fields marked autoFocus have already taken it
+  useEffect(() => {
+    const root = ref.current;
+    if (root && !root.contains(document.activeElement)) root.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const items: HTMLElement[] = Array.from(e.currentTarget.querySelectorAll<HTMLElement>(FOCUSABLE));
+    const index = items.indexOf(document.activeElement as HTMLElement);
+    // Steps through the items, wrapping at either end
+    const move = (delta: 1 | -1) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const next = index === -1 ? (delta > 0 ? 0 : items.length - 1) : (index + delta + items.length) % items.length;
+      items[next]?.focus();
+    };
+    if (e.key === 'Escape' && onEscape) {
+      e.preventDefault();
+      e.stopPropagation();
+      onEscape();
+    } else if (e.key === 'Tab' && (index === -1 || index === (e.shiftKey ? 0 : items.length - 1))) {
+      move(e.shiftKey ? -1 : 1);
+    } else if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && !ownsArrows(document.activeElement)) {
+      move(e.key === 'ArrowDown' ? 1 : -1);
+    }
+  };
+
+  return (
+    <div ref={ref} role="dialog" aria-modal="true" aria-label={label} onKeyDown={handleKeyDown}
+      className={`absolute inset-0 flex flex-col items-center justify-center text-white z-50 ${className}`}>
+      {children}
+    </div>
+  );
+};
+
+export default Overlay;
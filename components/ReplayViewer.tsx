@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraphicsSettings, Point, Recording } from '../types';
+import { TILE_SIZE, TICK_MS, MAX_CATCH_UP_TICKS } from '../constants';
+import { ReplayCursor, ReplayFormatError, advance, createCursor, decodeRecording, encodeRecording, isFinished, seek } from '../engine/replay';
+import { Renderer, drawOptions, rendererFor, snapshotPositions } from './render';
+import { fitCanvas, resolutionFor } from './camera';
+
+interface ReplayViewerProps {
+  recording: Recording | null;
+  error?: string | null;
+  graphics: GraphicsSettings;
+  onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor(ticks * TICK_MS / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording: initial, error: initialError = null, graphics, onExit }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const cursorRef = useRef<ReplayCursor | null>(null);
+  const previousRef = useRef(new Map<string, Point>());
+  const [recording, setRecording] = useState<Recording | null>(initial);
+  const [error, setError] = useState<string | null>(initialError);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const [pasted, setPasted] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+  const rendererRef = useRef<Renderer | null>(null);
+
+  if (recording && cursorRef.current?.recording !== recording) {
+    cursorRef.current = createCursor(recording);
+    previousRef.current = snapshotPositions(cursorRef.current.state);
+  }
+  const cursor = cursorRef.current;
+  const rows = cursor?.state.map.length ?? 0;
+  const cols = cursor?.state.map[0].length ?? 0;
+
+  // Same fixed-timestep loop as the game, with the clock scaled by `speed`
+  useEffect(() => {
+    if (!cursor) return;
+    let frame = 0;
+    let last = performance.now();
+    let accumulator = 0;
+    const loop = (time: number) => {
+      if (playing) {
+        accumulator += (time - last) * speed;
+        let ticks = 0;
+        while (accumulator >= TICK_MS && ticks < MAX_CATCH_UP_TICKS * 4) {
+          previousRef.current = snapshotPositions(cursor.state);
+          if (!advance(cursor)) break;
+          accumulator -= TICK_MS;
+          ticks++;
+        }
+        if (accumulator >= TICK_MS) accumulator = 0;
+        if (isFinished(cursor)) setPlaying(false);
+      }
+      last = time;
+      // Replays always show the whole map, at the screen's full resolution
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        fitCanvas(canvas);
+        const scale = canvas.width / (cols * TILE_SIZE);
+        rendererRef.current = rendererFor(rendererRef.current, graphics.backend, resolutionFor(canvas, { width: cols * TILE_SIZE }));
+        ctx.setTransform(scale, 0, 0, scale, 0, 0);
+        rendererRef.current.draw(ctx, cursor.state, graphics.theme ?? cursor.recording.theme, previousRef.current, playing ? accumulator / TICK_MS : 1, drawOptions(graphics));
+      }
+      setTick(cursor.state.tick);
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(frame);
+  }, [cursor, cols, playing, speed, graphics]);
+
+  const jumpTo = (target: number) => {
+    if (!cursor) return;
+    seek(cursor, target);
+    previousRef.current = snapshotPositions(cursor.state);
+    setTick(cursor.state.tick);
+  };
+
+  const stepForward = () => {
+    if (!cursor) return;
+    setPlaying(false);
+    previousRef.current = snapshotPositions(cursor.state);
+    advance(cursor);
+    setTick(cursor.state.tick);
+  };
+
+  const togglePlay = () => {
+    if (cursor && !playing && isFinished(cursor)) jumpTo(0);
+    setPlaying(!playing);
+  };
+
+  const load = (code: string) => {
+    try {
+      setRecording(decodeRecording(code));
+      setError(null);
+      setPlaying(true);
+    } catch (e) {
+      setError(e instanceof ReplayFormatError ? e.message : String(e));
+    }
+  };
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(await file.text());
+  };
+
+  const code = recording ? encodeRecording(recording) : '';
+  const link = `${location.origin}${location.pathname}#replay=${code}`;
+
+  const copy = async (label: string, value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(label);
+    } catch {
+      setCopied(null);
+    }
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `replay-${recording?.seed ?? 'run'}.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClass = 'px-3 py-1 bg-gray-700 rounded';
+
+  return (
+    <div className="flex flex-col items-center min-h-screen bg-neutral-900 p-2 text-white select-none">
+      <h1 className="text-2xl mb-2 text-emerald-400 font-bold">REPLAY</h1>
+
+      {cursor && (
+        <>
+          <div className="relative border-4 border-emerald-800 rounded-lg shadow-2xl bg-neutral-800"
+               style={{ width: `min(${cols * TILE_SIZE}px, 100%, calc((100dvh - 16rem) * ${cols / rows}))`, aspectRatio: `${cols}/${rows}` }}>
+            <canvas ref={canvasRef} role="img" aria-label="Replay board" className="block w-full h-full" />
+          </div>
+
+          <div className="flex items-center gap-2 mt-2 w-full max-w-lg text-sm">
+            <span className="w-10 text-right">{formatTicks(tick)}</span>
+            <input type="range" className="flex-1" aria-label="Position" min={0} max={cursor.recording.ticks} value={tick}
+              onChange={e => jumpTo(Number(e.target.value))} />
+            <span className="w-10">{formatTicks(cursor.recording.ticks)}</span>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-2 justify-center text-sm">
+            <button onClick={() => jumpTo(0)} className={buttonClass} title="Restart" aria-label="Restart">⏮</button>
+            <button onClick={() => { setPlaying(false); jumpTo(tick - 1); }} className={buttonClass} title="Step back" aria-label="Step back">◀︎|</button>
+            <button onClick={togglePlay} className={`${buttonClass} w-12`} aria-label={playing ? 'Pause' : 'Play'}>{playing ? '⏸' : '▶'}</button>
+            <button onClick={stepForward} className={buttonClass} title="Step forward" aria-label="Step forward">|▶︎</button>
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => setSpeed(s)} aria-pressed={speed === s} className={`px-2 py-1 rounded ${speed === s ? 'bg-emerald-600' : 'bg-gray-700'}`}>{s}×</button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-3 justify-center text-sm">
+            <button onClick={() => copy('code', code)} className={buttonClass}>{copied === 'code' ? 'Copied!' : 'Copy code'}</button>
+            <button onClick={() => copy('link', link)} className={buttonClass}>{copied === 'link' ? 'Copied!' : 'Copy link'}</button>
+            <button onClick={download} className={buttonClass}>Download .txt</button>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col gap-2 mt-3 w-full max-w-lg text-sm">
+        <textarea className="bg-neutral-800 rounded p-2 font-mono text-xs h-16" placeholder="Paste a replay code" aria-label="Replay code"
+          value={pasted} onChange={e => setPasted(e.target.value)} />
+        <div className="flex gap-2 justify-center">
+          <button onClick={() => load(pasted)} disabled={!pasted.trim()} className={`${buttonClass} disabled:opacity-40`}>Load</button>
+          <button onClick={() => fileRef.current?.click()} className={buttonClass}>Open file</button>
+          <input ref={fileRef} type="file" accept=".txt,text/plain" className="hidden" onChange={openFile} />
+          <button onClick={onExit} className="px-4 py-1 bg-emerald-600 rounded font-bold">MENU</button>
+        </div>
+        {error && <div className="text-red-400 text-center">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { MatchRules, RulesPreset, RulesSettings } from '../types';
+import { RULE_LIMITS } from '../constants';
+import { PRESETS, PRESET_NAMES, RULE_KEYS, checkRules, encodeRules, rulesOf } from '../engine/rules';
+import Overlay from './Overlay';
+
+interface RulesMenuProps {
+  settings: RulesSettings;
+  error: string | null; // Why rules from a link were turned down
+  onChange: (next: RulesSettings) => void;
+  onClose: () => void;
+}
+
+// Edits go into a draft first, so a half-typed number is shown and flagged
+// instead of being applied.
+const RulesMenu: React.FC<RulesMenuProps> = ({ settings, error, onChange, onClose }) => {
+  const [draft, setDraft] = useState<MatchRules>(() => rulesOf(settings.preset, settings.custom));
+  const [copied, setCopied] = useState(false);
+  const issues = checkRules(draft);
+
+  const choosePreset = (preset: RulesPreset) => {
+    setDraft(rulesOf(preset, settings.custom));
+    setCopied(false);
+    onChange({ ...settings, preset });
+  };
+
+  const edit = (key: keyof MatchRules, text: string) => {
+    const next = { ...draft, [key]: text.trim() === '' ? NaN : Number(text) };
+    setDraft(next);
+    setCopied(false);
+    if (checkRules(next).length === 0) onChange({ preset: RulesPreset.Custom, custom: next });
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${location.origin}${location.pathname}?${encodeRules(draft)}`);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <Overlay label="Match rules" onEscape={onClose} className="bg-black/80 gap-2">
+      <h2 className="text-3xl mb-1 font-bold">RULES</h2>
+      <div className="flex gap-2" role="group" aria-label="Preset">
+        {PRESETS.map(preset => (
+          <button key={preset} onClick={() => choosePreset(preset)} aria-pressed={settings.preset === preset}
+            className={`px-3 py-1 rounded text-sm ${settings.preset === preset ? 'bg-amber-600' : 'bg-gray-700'}`}>
+            {PRESET_NAMES[preset].toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-[auto_auto] gap-x-3 gap-y-1 text-sm mt-1">
+        {RULE_KEYS.map(key => {
+          const { label, min, max, step } = RULE_LIMITS[key];
+          return (
+            <label key={key} className="contents">
+              <span className="text-gray-300 self-center">{label}</span>
+              <input type="number" min={min} max={max} step={step} value={Number.isNaN(draft[key]) ? '' : draft[key]}
+                onChange={e => edit(key, e.target.value)}
+                className="w-24 px-2 py-0.5 rounded bg-neutral-800 border border-gray-600 text-white" />
+            </label>
+          );
+        })}
+      </div>
+      {error && <div role="alert" className="text-red-400 text-xs max-w-xs">{error}</div>}
+      {issues.length > 0 && (
+        <ul role="alert" className="text-red-400 text-xs max-w-xs">
+          {issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+      <div className="text-xs text-gray-400 text-center max-w-xs">Rules apply to new games, battles and online rooms you host.</div>
+      <div className="flex gap-2 mt-1">
+        <button onClick={copyLink} disabled={issues.length > 0} className="px-4 py-1 bg-sky-700 rounded disabled:opacity-40">
+          {copied ? 'COPIED' : 'COPY LINK'}
+        </button>
+        <button onClick={onClose} className="px-6 py-1 bg-gray-600 rounded">BACK</button>
+      </div>
+    </Overlay>
+  );
+};
+
+export default RulesMenu;
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { InputAction } from '../types';
+import { DPAD_DEADZONE_PX, EMOJIS, SWIPE_MIN_PX } from '../constants';
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+type OnAction = (action: InputAction, down: boolean) => void;
+
+const directionOf = (dx: number, dy: number, deadzone: number): Direction | null => {
+  if (Math.hypot(dx, dy) < deadzone) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx < 0 ? 'left' : 'right';
+  return dy < 0 ? 'up' : 'down';
+};
+
+// Tracks which direction each pointer holds. Pointers are captured on press,
+// so a finger sliding off the control still delivers its release.
+const useHeldDirections = (onAction: OnAction, onChange?: (dir: Direction | null) => void) => {
+  const held = useRef(new Map<number, Direction | null>());
+  const hold = (pointerId: number, dir: Direction | null) => {
+    const prev = held.current.get(pointerId) ?? null;
+    held.current.set(pointerId, dir);
+    if (prev === dir) return;
+    if (prev) onAction(prev, false);
+    if (dir) onAction(dir, true);
+    onChange?.(dir);
+  };
+  const release = (pointerId: number) => {
+    if (!held.current.has(pointerId)) return;
+    hold(pointerId, null);
+    held.current.delete(pointerId);
+  };
+  return { held, hold, release };
+};
+
+// Swipe on the board to walk, tap it to drop a bomb. Only touch pointers
+// count, so mouse clicks on overlays are unaffected.
+export const useSwipeControls = (onAction: OnAction) => {
+  const origins = useRef(new Map<number, { x: number; y: number; swiped: boolean }>());
+  const { hold, release } = useHeldDirections(onAction);
+  const end = (e: React.PointerEvent, tap: boolean) => {
+    const origin = origins.current.get(e.pointerId);
+    if (!origin) return;
+    if (tap && !origin.swiped) {
+      onAction('bomb', true);
+      onAction('bomb', false);
+    }
+    origins.current.delete(e.pointerId);
+    release(e.pointerId);
+  };
+  return {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.pointerType !== 'touch') return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      origins.current.set(e.pointerId, { x: e.clientX, y: e.clientY, swiped: false });
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const origin = origins.current.get(e.pointerId);
+      if (!origin) return;
+      const dir = directionOf(e.clientX - origin.x, e.clientY - origin.y, SWIPE_MIN_PX);
+      if (dir) origin.swiped = true;
+      if (origin.swiped) hold(e.pointerId, dir);
+    },
+    onPointerUp: (e: React.PointerEvent) => end(e, true),
+    onPointerCancel: (e: React.PointerEvent) => end(e, false),
+    onLostPointerCapture: (e: React.PointerEvent) => end(e, false)
+  };
+};
+
+const ARROWS: { dir: Direction; className: string }[] = [
+  { dir: 'up', className: 'top-0 left-10 rounded-t-lg' },
+  { dir: 'down', className: 'bottom-0 left-10 rounded-b-lg' },
+  { dir: 'left', className: 'left-0 top-10 rounded-l-lg' },
+  { dir: 'right', className: 'right-0 top-10 rounded-r-lg' },
+];
+
+const TouchControls: React.FC<{ onAction: OnAction }> = ({ onAction }) => {
+  const [active, setActive] = useState<Direction | null>(null);
+  const { hold, release } = useHeldDirections(onAction, setActive);
+
+  // The whole pad is one control: the direction follows the finger around it
+  const aim = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    hold(e.pointerId, directionOf(e.clientX - rect.left - rect.width / 2, e.clientY - rect.top - rect.height / 2, DPAD_DEADZONE_PX));
+  };
+
+  const tap = (action: InputAction) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    onAction(action, true);
+    onAction(action, false);
+  };
+
+  // A clicked button must not keep the focus, or Space would press it again
+  // instead of dropping a bomb
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+  // In landscape the wrapper dissolves so the pad and buttons flank the board
+  return (
+    <div className="flex w-full justify-between items-end px-4 mt-4 max-w-lg z-50 h-32 landscape:contents">
+      {/* D-Pad */}
+      <div role="group" aria-label="Direction pad" className="relative w-32 h-32 shrink-0 bg-white/10 rounded-full touch-none landscape:order-first"
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); aim(e); }}
+        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) aim(e); }}
+        onPointerUp={(e) => release(e.pointerId)}
+        onPointerCancel={(e) => release(e.pointerId)}
+        onLostPointerCapture={(e) => release(e.pointerId)}
+      >
+        {ARROWS.map(({ dir, className }) => (
+          <div key={dir} className={`absolute w-10 h-10 pointer-events-none ${className} ${active === dir ? 'bg-emerald-500/50' : 'bg-white/20'}`} />
+        ))}
+      </div>
+
+      {/* Action Buttons */}
+      <div className="flex items-end gap-3 shrink-0 landscape:order-last landscape:flex-col-reverse landscape:items-center">
+        <button
+          className="w-10 h-10 bg-white/10 border-2 border-white/30 rounded-full flex items-center justify-center text-lg active:bg-white/40 touch-none"
+          onPointerDown={tap('pause')}
+          onMouseDown={keepFocus}
+          tabIndex={-1}
+          aria-label="Pause"
+        >
+          ⏸️
+        </button>
+        <button
+          className="w-14 h-14 bg-sky-500/30 border-2 border-white/30 rounded-full flex items-center justify-center text-2xl active:bg-sky-500/80 active:scale-95 transition-all touch-none"
+          onPointerDown={tap('detonate')}
+          onMouseDown={keepFocus}
+          tabIndex={-1}
+          aria-label="Detonate"
+        >
+          {EMOJIS.REMOTE}
+        </button>
+        <button
+          className="w-24 h-24 bg-red-500/30 border-2 border-white/30 rounded-full flex items-center justify-center text-4xl active:bg-red-500/80 active:scale-95 transition-all touch-none"
+          onPointerDown={tap('bomb')}
+          onMouseDown={keepFocus}
+          tabIndex={-1}
+          aria-label="Drop bomb"
+        >
+          💣
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TouchControls;
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CpuDifficulty, EnemyKind, GameMode, PowerUpType } from '../types';
+import { TICK_MS } from '../constants';
+import { NO_INPUT, PLAYER_ID, createGame, step } from '../engine/simulation';
+import { parseLevel } from '../engine/levels';
+import { describeEvents } from './announce';
+
+const stage = () => {
+  const { layout } = parseLevel(['#######', '#P...E#', '#.#.#.#', '#E...E#', '#######'].join('\n'));
+  const state = createGame(1, { layout, mode: GameMode.Adventure });
+  state.enemies.forEach(e => { e.speed = 0; });
+  return state;
+};
+
+describe('describeEvents', () => {
+  it('tells the player their bomb is down', () => {
+    const state = stage();
+    step(state, { [PLAYER_ID]: { ...NO_INPUT, bomb: true } }, TICK_MS);
+    expect(describeEvents(state, [PLAYER_ID])).toEqual(['Bomb placed']);
+  });
+
+  it('counts the enemies defeated and those left', () => {
+    const state = stage();
+    state.enemies = state.enemies.slice(0, 1);
+    state.events = [{ type: 'enemyKilled', kind: EnemyKind.Wanderer }, { type: 'enemyKilled', kind: EnemyKind.Wanderer }];
+    expect(describeEvents(state, [PLAYER_ID])).toEqual(['2 enemies defeated', '1 enemy left']);
+    state.enemies = [];
+    state.events = [{ type: 'enemyKilled', kind: EnemyKind.Chaser }];
+    expect(describeEvents(state, [PLAYER_ID])).toEqual(['All enemies defeated']);
+  });
+
+  it('names the bomber when several share the screen, and skips the CPUs', () => {
+    const state = createGame(1, { mode: GameMode.Battle, humans: 2, rivals: [CpuDifficulty.Easy], enemies: [] });
+    const [bunny, fox, cpu] = state.players;
+    state.events = [
+      { type: 'bombPlaced', ownerId: fox.id },
+      { type: 'pickup', playerId: bunny.id, item: PowerUpType.FireRange },
+      { type: 'bombPlaced', ownerId: cpu.id },
+      { type: 'playerKilled', playerId: fox.id },
+    ];
+    fox.lives = 0;
+    expect(describeEvents(state, [bunny.id, fox.id])).toEqual(['Fox placed a bomb', 'Bunny got Fire up', 'Fox is out']);
+  });
+});
@@ -0,0 +1,56 @@
+import { GameState, PowerUpType } from '../types';
+import { BOMBER_NAMES } from '../constants';
+
+const ITEM_NAMES: Record<PowerUpType, string> = {
+  [PowerUpType.ExtraBomb]: 'Extra bomb',
+  [PowerUpType.FireRange]: 'Fire up',
+  [PowerUpType.Speed]: 'Speed up',
+  [PowerUpType.Kick]: 'Kick',
+  [PowerUpType.Remote]: 'Remote detonator',
+  [PowerUpType.Pierce]: 'Pierce bomb',
+  [PowerUpType.Skull]: 'Skull curse',
+  [PowerUpType.Mine]: 'Land mine',
+  [PowerUpType.Throw]: 'Power glove',
+};
+
+const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+// What the latest step did, as short sentences for a screen reader. Only the
+// bombs and pickups of the players on this device are told; with one of them
+// there is no need to say whose they were.
+export const describeEvents = (state: GameState, local: string[]): string[] => {
+  const name = (id: string) => {
+    const player = state.players.find(p => p.id === id);
+    return player ? BOMBER_NAMES[player.slot] : 'Someone';
+  };
+  const mine = (id: string) => local.includes(id);
+  const messages: string[] = [];
+  let defeated = 0;
+  state.events.forEach(event => {
+    if (event.type === 'bombPlaced' && mine(event.ownerId)) {
+      messages.push(local.length === 1 ? 'Bomb placed' : `${name(event.ownerId)} placed a bomb`);
+    } else if (event.type === 'pickup' && mine(event.playerId)) {
+      const item = ITEM_NAMES[event.item];
+      messages.push(local.length === 1 ? `Got ${item}` : `${name(event.playerId)} got ${item}`);
+    } else if (event.type === 'enemyKilled') {
+      defeated++;
+    } else if (event.type === 'playerKilled') {
+      const lives = state.players.find(p => p.id === event.playerId)?.lives ?? 0;
+      messages.push(lives > 0 ? `${name(event.playerId)} lost a life, ${count(lives, 'life', 'lives')} left` : `${name(event.playerId)} is out`);
+    }
+  });
+  if (defeated > 0) {
+    const left = state.enemies.length;
+    if (left === 0) messages.push('All enemies defeated');
+    else messages.push(`${defeated === 1 ? 'Enemy' : count(defeated, 'enemy', 'enemies')} defeated`, `${count(left, 'enemy', 'enemies')} left`);
+  }
+  return messages;
+};
+
+// Screen readers only speak a live region when its text changes, so a
+// repeat of the last message gets a trailing no-break space toggled on or off.
+export const announce = (region: HTMLElement | null, messages: string[]) => {
+  if (!region || messages.length === 0) return;
+  const text = messages.join('. ');
+  region.textContent = region.textContent === text ? `${text}\u00a0` : text;
+};
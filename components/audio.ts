@@ -0,0 +1,216 @@
+import { AudioSettings, GameEvent, GameState, LevelTheme, PowerUpType } from '../types';
+import { AUDIO_STORAGE_KEY, MUSIC_TRACKS } from '../constants';
+import { readStored, writeStored } from './storage';
+
+export interface GameAudio {
+  unlock: () => void;
+  apply: (settings: AudioSettings) => void;
+  play: (events: GameEvent[]) => void;
+  fuse: (state: GameState) => void;
+  stinger: (won: boolean) => void;
+  startMusic: (theme: LevelTheme) => void;
+  stopMusic: () => void;
+}
+
+interface Graph {
+  ctx: AudioContext;
+  master: GainNode;
+  sfx: GainNode;
+  music: GainNode;
+  noise: AudioBuffer;
+}
+
+interface ToneOptions {
+  type?: OscillatorType;
+  slideTo?: number;
+  volume?: number;
+  at?: number; // Audio clock time, defaults to now
+  bus?: GainNode;
+}
+
+// How far ahead the music scheduler queues notes, in seconds
+const LOOKAHEAD_S = 0.12;
+const SCHEDULER_MS = 25;
+
+const noteFrequency = (root: number, semitones: number) => root * 2 ** (semitones / 12);
+
+// Everything is synthesised on the fly, so there are no assets to load. The
+// context is only created in unlock(), from a user gesture, because browsers
+// keep audio suspended until then.
+export const createAudio = (initial: AudioSettings): GameAudio => {
+  let settings = initial;
+  let graph: Graph | null = null;
+  let track: { theme: LevelTheme; step: number; nextTime: number; timer: number } | null = null;
+  let wantedTheme: LevelTheme | null = null; // Asked for before the unlock
+  let lastFuseTick = 0;
+
+  const setGains = () => {
+    if (!graph) return;
+    graph.master.gain.value = settings.muted ? 0 : settings.master;
+    graph.sfx.gain.value = settings.sfx;
+    graph.music.gain.value = settings.music;
+  };
+
+  const tone = (freq: number, duration: number, { type = 'square', slideTo, volume = 0.3, at, bus }: ToneOptions = {}) => {
+    if (!graph) return;
+    const start = at ?? graph.ctx.currentTime;
+    const osc = graph.ctx.createOscillator();
+    const gain = graph.ctx.createGain();
+    osc.type = type;
+    osc.frequency.setValueAtTime(freq, start);
+    if (slideTo) osc.frequency.exponentialRampToValueAtTime(slideTo, start + duration);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    osc.connect(gain).connect(bus ?? graph.sfx);
+    osc.start(start);
+    osc.stop(start + duration + 0.02);
+  };
+
+  const noiseBurst = (duration: number, volume: number, cutoff: number) => {
+    if (!graph) return;
+    const { ctx } = graph;
+    const start = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    source.buffer = graph.noise;
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoff, start);
+    filter.frequency.exponentialRampToValueAtTime(cutoff / 4, start + duration);
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + duration);
+    source.connect(filter).connect(gain).connect(graph.sfx);
+    source.start(start);
+    source.stop(start + duration);
+  };
+
+  const playEvent = (event: GameEvent) => {
+    switch (event.type) {
+      case 'bombPlaced':
+        tone(200, 0.08, { type: 'sine', slideTo: 90, volume: 0.4 });
+        break;
+      case 'explosion': {
+        // Chains boom louder and longer, up to a point
+        const size = Math.min(event.bombs, 5);
+        noiseBurst(0.35 + size * 0.08, 0.35 + size * 0.1, 1800 - size * 150);
+        tone(90, 0.4 + size * 0.05, { type: 'sine', slideTo: 35, volume: 0.5 });
+        break;
+      }
+      case 'enemyKilled':
+        tone(700, 0.2, { type: 'triangle', slideTo: 150, volume: 0.25 });
+        break;
+      case 'playerKilled':
+        tone(440, 0.6, { type: 'sawtooth', slideTo: 55, volume: 0.25 });
+        break;
+      case 'pickup':
+        if (event.item === PowerUpType.Skull) {
+          tone(180, 0.25, { type: 'sawtooth', slideTo: 120 });
+        } else if (graph) {
+          tone(660, 0.07);
+          tone(990, 0.1, { at: graph.ctx.currentTime + 0.07 });
+        }
+        break;
+    }
+  };
+
+  const scheduleMusic = () => {
+    if (!graph || !track) return;
+    const { bpm, root, wave, lead, bass } = MUSIC_TRACKS[track.theme];
+    const stepTime = 60 / bpm / 2;
+    while (track.nextTime < graph.ctx.currentTime + LOOKAHEAD_S) {
+      const note = lead[track.step % lead.length];
+      const low = bass[track.step % bass.length];
+      if (note !== null) tone(noteFrequency(root, note), stepTime * 0.9, { type: wave, volume: 0.12, at: track.nextTime, bus: graph.music });
+      if (low !== null) tone(noteFrequency(root, low - 12), stepTime * 1.8, { type: 'triangle', volume: 0.2, at: track.nextTime, bus: graph.music });
+      track.nextTime += stepTime;
+      track.step++;
+    }
+  };
+
+  const stopTrack = () => {
+    if (track) window.clearInterval(track.timer);
+    track = null;
+  };
+
+  const startMusic = (theme: LevelTheme) => {
+    wantedTheme = theme;
+    if (!graph || track?.theme === theme) return;
+    stopTrack();
+    track = { theme, step: 0, nextTime: graph.ctx.currentTime + 0.05, timer: window.setInterval(scheduleMusic, SCHEDULER_MS) };
+    scheduleMusic();
+  };
+
+  const stopMusic = () => {
+    wantedTheme = null;
+    stopTrack();
+  };
+
+  const unlock = () => {
+    if (!graph) {
+      const ctx = new AudioContext();
+      const master = ctx.createGain();
+      const sfx = ctx.createGain();
+      const music = ctx.createGain();
+      sfx.connect(master);
+      music.connect(master);
+      master.connect(ctx.destination);
+      const noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+      graph = { ctx, master, sfx, music, noise };
+      setGains();
+    }
+    void graph.ctx.resume();
+    if (wantedTheme !== null) startMusic(wantedTheme);
+  };
+
+  return {
+    unlock,
+    apply: next => {
+      settings = next;
+      setGains();
+    },
+    play: events => events.forEach(playEvent),
+    // Ticks faster as the shortest lit fuse burns down
+    fuse: state => {
+      if (!graph) return;
+      const timers = state.bombs.filter(b => !b.remote && !b.mine).map(b => b.timer);
+      if (timers.length === 0) return;
+      const interval = Math.max(70, Math.min(400, Math.min(...timers) / 6));
+      const now = graph.ctx.currentTime * 1000;
+      if (now - lastFuseTick < interval) return;
+      lastFuseTick = now;
+      tone(2000, 0.015, { volume: 0.06 });
+    },
+    stinger: won => {
+      if (!graph) return;
+      stopMusic();
+      const notes = won ? [523.25, 659.25, 783.99, 1046.5] : [392, 349.23, 311.13, 261.63];
+      const start = graph.ctx.currentTime;
+      notes.forEach((freq, i) => tone(freq, i === notes.length - 1 ? 0.6 : 0.15, {
+        type: won ? 'square' : 'triangle', volume: 0.25, at: start + i * 0.14
+      }));
+    },
+    startMusic,
+    stopMusic
+  };
+};
+
+// --- Settings ---
+
+export const loadAudioSettings = (): AudioSettings => {
+  const defaults: AudioSettings = { master: 0.8, sfx: 1, music: 0.5, muted: false };
+  const stored = readStored(AUDIO_STORAGE_KEY) as Partial<AudioSettings> | null;
+  if (!stored || typeof stored !== 'object') return defaults;
+  const level = (value: unknown, fallback: number) => typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback;
+  return {
+    master: level(stored.master, defaults.master),
+    sfx: level(stored.sfx, defaults.sfx),
+    music: level(stored.music, defaults.music),
+    muted: typeof stored.muted === 'boolean' ? stored.muted : defaults.muted
+  };
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  writeStored(AUDIO_STORAGE_KEY, settings);
+};
@@ -0,0 +1,73 @@
+import { GameState, Player, Point } from '../types';
+import { TILE_SIZE, MAX_VIEW_ROWS, MAX_VIEW_COLS, CAMERA_MARGIN_TILES, CAMERA_SMOOTHING_MS } from '../constants';
+
+// The slice of the world on screen, in world pixels.
+export interface Camera extends Point {
+  width: number;
+  height: number;
+}
+
+// How much of a map is shown at normal zoom.
+export const viewSize = (rows: number, cols: number) => ({
+  width: Math.min(cols, MAX_VIEW_COLS) * TILE_SIZE,
+  height: Math.min(rows, MAX_VIEW_ROWS) * TILE_SIZE
+});
+
+// Matches the canvas backing store to its on-screen size in device pixels,
+// so nothing gets stretched on HiDPI screens.
+export const fitCanvas = (canvas: HTMLCanvasElement) => {
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.round(canvas.clientWidth * ratio);
+  const height = Math.round(canvas.clientHeight * ratio);
+  if (width > 0 && height > 0 && (canvas.width !== width || canvas.height !== height)) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+};
+
+// Device pixels per world pixel at normal zoom, in half steps so cached art
+// is not repainted on every small resize.
+export const resolutionFor = (canvas: HTMLCanvasElement, view: { width: number }) =>
+  Math.max(0.5, Math.ceil(canvas.width / view.width * 2) / 2);
+
+// Centres on the living bombers picked by `follow`, the local humans unless
+// told otherwise (everyone, once they are all down), and zooms out as far as
+// the map allows to keep them all in view.
+export const cameraTarget = (state: GameState, previous: Map<string, Point>, alpha: number, follow = (p: Player) => !p.bot): Camera => {
+  const rows = state.map.length, cols = state.map[0].length;
+  const world = { width: cols * TILE_SIZE, height: rows * TILE_SIZE };
+  const view = viewSize(rows, cols);
+  const followed = state.players.filter(p => follow(p) && p.alive);
+  const points = (followed.length > 0 ? followed : state.players).map(p => {
+    const prev = previous.get(`p${p.id}`) ?? p;
+    return { x: prev.x + (p.x - prev.x) * alpha, y: prev.y + (p.y - prev.y) * alpha };
+  });
+  const margin = CAMERA_MARGIN_TILES * TILE_SIZE;
+  const xs = points.map(p => p.x), ys = points.map(p => p.y);
+  const left = Math.min(...xs) - margin, right = Math.max(...xs) + margin;
+  const top = Math.min(...ys) - margin, bottom = Math.max(...ys) + margin;
+  const zoom = Math.min(
+    Math.max(1, (right - left) / view.width, (bottom - top) / view.height),
+    world.width / view.width,
+    world.height / view.height
+  );
+  const width = view.width * zoom, height = view.height * zoom;
+  return {
+    x: Math.max(0, Math.min(world.width - width, (left + right - width) / 2)),
+    y: Math.max(0, Math.min(world.height - height, (top + bottom - height) / 2)),
+    width,
+    height
+  };
+};
+
+// Eases towards the target; the first frame of a stage jumps straight there.
+export const followCamera = (camera: Camera | null, target: Camera, elapsedMs: number): Camera => {
+  if (!camera) return target;
+  const k = 1 - Math.exp(-elapsedMs / CAMERA_SMOOTHING_MS);
+  return {
+    x: camera.x + (target.x - camera.x) * k,
+    y: camera.y + (target.y - camera.y) * k,
+    width: camera.width + (target.width - camera.width) * k,
+    height: camera.height + (target.height - camera.height) * k
+  };
+};
@@ -0,0 +1,155 @@
+import { InputAction, KeyBinding, PlayerInput } from '../types';
+import { BINDINGS_STORAGE_KEY, GAMEPAD_DEADZONE, KEY_BINDINGS } from '../constants';
+import { readStored, writeStored } from './storage';
+
+export const INPUT_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'bomb', 'detonate', 'pause'];
+
+// Movement is held; the rest fire once per press.
+const MOVES = ['up', 'down', 'left', 'right'] as const;
+const ONE_SHOT = ['bomb', 'detonate', 'pause'] as const;
+
+export type ActionState = Record<InputAction, boolean>;
+
+const noActions = (): ActionState => ({
+  up: false, down: false, left: false, right: false, bomb: false, detonate: false, pause: false
+});
+
+const isOneShot = (action: InputAction) => (ONE_SHOT as readonly InputAction[]).includes(action);
+
+// What the physical sources have reported since the last poll. Touch controls
+// always drive the first player.
+export interface InputHub {
+  keys: Record<string, boolean>; // Held keys by KeyboardEvent.code
+  keyTaps: Set<string>; // Keys pressed since the last poll
+  touch: ActionState; // Directions held on the D-pad or by a swipe
+  touchTaps: Set<InputAction>;
+  padButtons: Record<string, boolean>[]; // One-shot buttons held at the last poll, per gamepad
+}
+
+export const createInputHub = (): InputHub => ({
+  keys: {},
+  keyTaps: new Set(),
+  touch: noActions(),
+  touchTaps: new Set(),
+  padButtons: KEY_BINDINGS.map(() => ({}))
+});
+
+export const keyDown = (hub: InputHub, code: string, repeat: boolean) => {
+  hub.keys[code] = true;
+  if (!repeat) hub.keyTaps.add(code);
+};
+
+export const keyUp = (hub: InputHub, code: string) => {
+  hub.keys[code] = false;
+};
+
+export const touchAction = (hub: InputHub, action: InputAction, down: boolean) => {
+  if (!isOneShot(action)) hub.touch[action] = down;
+  else if (down) hub.touchTaps.add(action);
+};
+
+// Drops everything held, e.g. when the window loses focus mid-press.
+export const releaseAll = (hub: InputHub) => {
+  hub.keys = {};
+  hub.touch = noActions();
+};
+
+// Radial deadzone, then eight-way: a stick within 22.5° of an axis only
+// moves along that axis.
+const stickDirections = (x: number, y: number) => {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < GAMEPAD_DEADZONE) return { up: false, down: false, left: false, right: false };
+  const lean = magnitude * Math.sin(Math.PI / 8);
+  return { up: y < -lean, down: y > lean, left: x < -lean, right: x > lean };
+};
+
+const PAD_BUTTONS: Record<(typeof ONE_SHOT)[number], number> = { bomb: 0, detonate: 1, pause: 9 };
+
+// Standard-mapping gamepad: left stick or d-pad moves, A bombs, B detonates
+// and Start pauses.
+const readGamepad = (pad: Gamepad, held: Record<string, boolean>): ActionState => {
+  const pressed = (i: number) => !!pad.buttons[i]?.pressed;
+  const stick = stickDirections(pad.axes[0] ?? 0, pad.axes[1] ?? 0);
+  const actions = noActions();
+  actions.up = stick.up || pressed(12);
+  actions.down = stick.down || pressed(13);
+  actions.left = stick.left || pressed(14);
+  actions.right = stick.right || pressed(15);
+  ONE_SHOT.forEach(action => {
+    const down = pressed(PAD_BUTTONS[action]);
+    actions[action] = down && !held[action];
+    held[action] = down;
+  });
+  return actions;
+};
+
+// Combines every source bound to `slot` into one reading.
+export const readActions = (hub: InputHub, slot: number, binding: KeyBinding, pad: Gamepad | null): ActionState => {
+  const actions = noActions();
+  MOVES.forEach(action => { actions[action] = !!hub.keys[binding[action]]; });
+  ONE_SHOT.forEach(action => { actions[action] = hub.keyTaps.has(binding[action]); });
+  const sources: ActionState[] = [];
+  if (slot === 0) {
+    sources.push({ ...hub.touch, bomb: hub.touchTaps.has('bomb'), detonate: hub.touchTaps.has('detonate'), pause: hub.touchTaps.has('pause') });
+  }
+  if (pad) sources.push(readGamepad(pad, hub.padButtons[slot]));
+  sources.forEach(source => INPUT_ACTIONS.forEach(action => { actions[action] ||= source[action]; }));
+  return actions;
+};
+
+// Forgets one-shot presses once every player has been read.
+export const endFrame = (hub: InputHub) => {
+  hub.keyTaps.clear();
+  hub.touchTaps.clear();
+};
+
+export const toPlayerInput = (actions: ActionState): PlayerInput => ({
+  up: actions.up,
+  down: actions.down,
+  left: actions.left,
+  right: actions.right,
+  bomb: actions.bomb,
+  detonate: actions.detonate
+});
+
+export const isBound = (bindings: KeyBinding[], code: string) => {
+  return bindings.some(binding => INPUT_ACTIONS.some(action => binding[action] === code));
+};
+
+// Binds `code` to one action. A key already in use elsewhere swaps places
+// with the key being replaced, so no action is ever left unbound.
+export const rebind = (bindings: KeyBinding[], slot: number, action: InputAction, code: string): KeyBinding[] => {
+  const previous = bindings[slot][action];
+  return bindings.map((binding, i) => {
+    const next = { ...binding };
+    INPUT_ACTIONS.forEach(a => { if (next[a] === code) next[a] = previous; });
+    if (i === slot) next[action] = code;
+    return next;
+  });
+};
+
+// Missing or malformed slots fall back to the defaults.
+export const loadBindings = (): KeyBinding[] => {
+  const stored = readStored(BINDINGS_STORAGE_KEY);
+  return KEY_BINDINGS.map((defaults, i) => {
+    const saved = Array.isArray(stored) ? stored[i] : null;
+    const valid = saved && INPUT_ACTIONS.every(action => typeof saved[action] === 'string');
+    if (!valid) return { ...defaults };
+    const binding = { ...defaults };
+    INPUT_ACTIONS.forEach(action => { binding[action] = saved[action]; });
+    return binding;
+  });
+};
+
+export const saveBindings = (bindings: KeyBinding[]) => {
+  writeStored(BINDINGS_STORAGE_KEY, bindings);
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→', Space: 'Space', Escape: 'Esc'
+};
+
+export const keyLabel = (code: string) => {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  return code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'Num ');
+};
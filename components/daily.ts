@@ -0,0 +1,39 @@
+import { DailyResult } from '../types';
+import { DAILY_HISTORY_STORAGE_KEY } from '../constants';
+import { readStored, writeStored } from './storage';
+
+// Bump when the stored shape changes and teach migrate() the old one.
+const DAILY_HISTORY_VERSION = 1;
+
+interface StoredDailyHistory {
+  version: number;
+  results: DailyResult[];
+}
+
+const isResult = (value: unknown): value is DailyResult => {
+  const r = value as DailyResult;
+  return !!r && typeof r.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(r.date) && typeof r.seedHash === 'string'
+    && typeof r.cleared === 'boolean' && typeof r.timeMs === 'number' && typeof r.bombs === 'number' && typeof r.deaths === 'number';
+};
+
+// Unknown versions, such as one written by a newer build, are left alone
+// rather than misread.
+const migrate = (stored: StoredDailyHistory): DailyResult[] | null => {
+  switch (stored.version) {
+    case DAILY_HISTORY_VERSION:
+      return stored.results;
+    default:
+      return null;
+  }
+};
+
+export const loadDailyHistory = (): DailyResult[] => {
+  const history = readStored(DAILY_HISTORY_STORAGE_KEY) as StoredDailyHistory | null;
+  if (!history || typeof history.version !== 'number' || !Array.isArray(history.results)) return [];
+  return (migrate(history) ?? []).filter(isResult).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const saveDailyHistory = (results: DailyResult[]) => {
+  const stored: StoredDailyHistory = { version: DAILY_HISTORY_VERSION, results };
+  writeStored(DAILY_HISTORY_STORAGE_KEY, stored);
+};
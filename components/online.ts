@@ -0,0 +1,89 @@
+import { NET_PORT, ONLINE_STORAGE_KEY } from '../constants';
+import { NET_SUBPROTOCOL, ProtocolError } from '../engine/protocol';
+import { NetClient, NetUpdate, createNetClient, joinRoom, receiveMessage } from '../engine/online';
+import { readStored, writeStored } from './storage';
+
+export interface OnlineSettings {
+  server: string;
+  name: string;
+  room: string | null; // Last seat, so a reloaded page can take it back
+  token: string | null;
+}
+
+export type OnlineUpdate = NetUpdate | 'connected' | 'offline';
+
+export interface OnlineConnection {
+  client: NetClient;
+  close: () => void;
+}
+
+const RECONNECT_MS = 1000;
+
+// Keeps a socket to the server open until closed. Lobby requests made before
+// it opens are queued; inputs sent while it is down are dropped, since the
+// server holds the last one anyway. After a drop it reconnects and rejoins,
+// taking the same seat back.
+export const connectOnline = (settings: OnlineSettings, onUpdate: (update: OnlineUpdate) => void): OnlineConnection => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retry = 0;
+  const outbox: string[] = [];
+  const client = createNetClient(text => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(text);
+    else if (!client.room) outbox.push(text);
+  }, settings.token);
+
+  const open = () => {
+    const ws = new WebSocket(settings.server, NET_SUBPROTOCOL);
+    socket = ws;
+    ws.onopen = () => {
+      if (client.room) joinRoom(client, client.room.code, settings.name);
+      outbox.splice(0).forEach(text => ws.send(text));
+      onUpdate('connected');
+    };
+    ws.onmessage = e => {
+      try {
+        onUpdate(receiveMessage(client, String(e.data), performance.now()));
+      } catch (error) {
+        if (!(error instanceof ProtocolError)) throw error;
+        client.error = error.message;
+        onUpdate('error');
+      }
+    };
+    ws.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onUpdate('offline');
+      retry = window.setTimeout(open, RECONNECT_MS);
+    };
+  };
+  open();
+
+  return {
+    client,
+    close: () => {
+      closed = true;
+      window.clearTimeout(retry);
+      socket?.close();
+    }
+  };
+};
+
+// --- Settings ---
+
+export const loadOnlineSettings = (): OnlineSettings => {
+  const defaults: OnlineSettings = { server: `ws://${location.hostname || 'localhost'}:${NET_PORT}`, name: '', room: null, token: null };
+  const stored = readStored(ONLINE_STORAGE_KEY) as Partial<OnlineSettings> | null;
+  if (!stored || typeof stored !== 'object') return defaults;
+  const text = (value: unknown, fallback: string | null) => typeof value === 'string' ? value : fallback;
+  return {
+    server: text(stored.server, defaults.server) ?? defaults.server,
+    name: text(stored.name, '') ?? '',
+    room: text(stored.room, null),
+    token: text(stored.token, null)
+  };
+};
+
+export const saveOnlineSettings = (settings: OnlineSettings) => {
+  writeStored(ONLINE_STORAGE_KEY, settings);
+};
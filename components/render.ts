@@ -0,0 +1,263 @@
+import { Explosion, GameState, GraphicsSettings, LevelTheme, Palette, Player, Point, RenderBackend, TileType } from '../types';
+import { TILE_SIZE, DEATH_ANIMATION_MS, GRAPHICS_STORAGE_KEY, THEME_COLORS, PALETTE_COLORS, DANGER_HATCH } from '../constants';
+import { dangerTiles } from '../engine/ai';
+import { FlamePart, SpriteId, createBackend } from './sprites';
+import { ThemeColors, drawDangerHatch, drawTileMark } from './tiles';
+import { readStored, writeStored } from './storage';
+
+// Where each moving entity was at the previous tick, for interpolation.
+export const snapshotPositions = (state: GameState) => {
+  const positions = new Map<string, Point>();
+  state.players.forEach(p => positions.set(`p${p.id}`, { x: p.x, y: p.y }));
+  state.enemies.forEach(e => positions.set(`e${e.id}`, { x: e.x, y: e.y }));
+  state.bombs.forEach(b => positions.set(`b${b.id}`, { x: b.x, y: b.y }));
+  return positions;
+};
+
+// The accessibility settings as they apply to one frame.
+export interface DrawOptions {
+  palette: Palette;
+  reducedMotion: boolean;
+  dangerZones: boolean;
+}
+
+export interface Renderer {
+  backend: RenderBackend;
+  resolution: number;
+  draw: (ctx: CanvasRenderingContext2D, state: GameState, theme: LevelTheme, previous: Map<string, Point>, alpha: number, options: DrawOptions) => void;
+}
+
+// A bomber or enemy on screen this frame.
+interface Actor extends Point {
+  key: string;
+  sprite: SpriteId;
+  flip: boolean;
+  moving: boolean;
+  hidden: boolean; // Off phase of a blink
+  faded: boolean; // Stands in for blinking when motion is reduced
+}
+
+interface TileLayer {
+  canvas: HTMLCanvasElement;
+  tiles: (TileType | null)[][]; // What is currently painted, to find changed tiles
+  colors: ThemeColors;
+}
+
+// Centre, straight arm or end cap, from the neighbouring flame tiles.
+const flamePart = (p: Point, center: Point, lit: Set<string>): FlamePart => {
+  const dx = Math.sign(p.x - center.x), dy = Math.sign(p.y - center.y);
+  if (dx === 0 && dy === 0) return 'center';
+  if (lit.has(`${p.x + dx},${p.y + dy}`)) return dx !== 0 ? 'h' : 'v';
+  if (dx !== 0) return dx > 0 ? 'tip-right' : 'tip-left';
+  return dy > 0 ? 'tip-down' : 'tip-up';
+};
+
+// Flames flare up quickly, then thin out and fade.
+const flameThickness = (exp: Explosion, duration: number) => {
+  const t = 1 - exp.timer / duration;
+  return t < 0.15 ? 0.5 + t / 0.15 * 0.5 : 1 - (t - 0.15) * 0.6;
+};
+
+// Respawned bombers blink while they are invulnerable.
+const isBlinking = (player: Player) => player.invulnerableMs > 0 && Math.floor(player.invulnerableMs / 100) % 2 === 0;
+
+const motionQuery = typeof matchMedia === 'function' ? matchMedia('(prefers-reduced-motion: reduce)') : null;
+
+// Reduced motion follows the system setting unless the player chose.
+export const drawOptions = (graphics: GraphicsSettings): DrawOptions => ({
+  palette: graphics.palette,
+  reducedMotion: graphics.reducedMotion ?? motionQuery?.matches ?? false,
+  dangerZones: graphics.dangerZones
+});
+
+// Draws in world pixels; callers set up the transform to the screen (camera
+// and scale). `resolution` is the device pixels per world pixel that the
+// cached art is painted at.
+export const createRenderer = (backend: RenderBackend, resolution = 1): Renderer => {
+  const sprites = createBackend(backend, resolution);
+  let layer: TileLayer | null = null;
+  let seen = new Map<string, Actor>();
+  let dying: (Actor & { since: number })[] = [];
+  let lastState: GameState | null = null;
+  let lastTick = 0;
+
+  // Walls only change when blown up or dropped in, so the tile layer is
+  // painted once into an offscreen canvas and then patched tile by tile.
+  const syncTiles = (map: TileType[][], colors: ThemeColors, mark: string | null) => {
+    const rows = map.length, cols = map[0].length;
+    if (!layer || layer.colors !== colors || layer.tiles.length !== rows || layer.tiles[0].length !== cols) {
+      const canvas = layer?.canvas ?? document.createElement('canvas');
+      canvas.width = Math.ceil(cols * TILE_SIZE * resolution);
+      canvas.height = Math.ceil(rows * TILE_SIZE * resolution);
+      layer = { canvas, tiles: map.map(row => row.map(() => null)), colors };
+    }
+    const { canvas, tiles } = layer;
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(canvas.width / (cols * TILE_SIZE), 0, 0, canvas.height / (rows * TILE_SIZE), 0, 0);
+    map.forEach((row, r) => row.forEach((tile, c) => {
+      if (tiles[r][c] === tile) return;
+      sprites.drawTile(ctx, tile, r, c, colors);
+      if (mark) drawTileMark(ctx, tile, r, c, mark);
+      tiles[r][c] = tile;
+    }));
+    return canvas;
+  };
+
+  // Enemies leave the state the moment they die and bombers just stop being
+  // alive, so deaths are spotted by comparing with the previous frame. They
+  // play out in wall-clock time so the final blow still animates once a round
+  // is over and the simulation has stopped.
+  const trackDeaths = (state: GameState, actors: Actor[], now: number) => {
+    if (state !== lastState || state.tick < lastTick) {
+      seen = new Map();
+      dying = [];
+    }
+    const current = new Map(actors.map(a => [a.key, a]));
+    seen.forEach((actor, key) => {
+      if (!current.has(key)) dying.push({ ...actor, hidden: false, faded: false, since: now });
+    });
+    seen = current;
+    lastState = state;
+    lastTick = state.tick;
+    dying = dying.filter(d => now - d.since < DEATH_ANIMATION_MS);
+  };
+
+  const drawActor = (ctx: CanvasRenderingContext2D, actor: Actor, tick: number, still: boolean) => {
+    // Walking bobs along with the simulation clock
+    const bob = actor.moving && !still ? Math.abs(Math.sin(tick * 0.3)) * TILE_SIZE * 0.06 : 0;
+    ctx.save();
+    if (actor.faded) ctx.globalAlpha = 0.5;
+    ctx.translate(actor.x, actor.y - bob);
+    if (actor.flip) ctx.scale(-1, 1);
+    sprites.drawSprite(ctx, actor.sprite);
+    ctx.restore();
+  };
+
+  // Spins away, or with reduced motion just fades out
+  const drawDying = (ctx: CanvasRenderingContext2D, actor: Actor & { since: number }, now: number, still: boolean) => {
+    const t = (now - actor.since) / DEATH_ANIMATION_MS;
+    ctx.save();
+    ctx.globalAlpha = 1 - t;
+    ctx.translate(actor.x, actor.y);
+    if (!still) {
+      ctx.rotate(t * Math.PI * 2);
+      ctx.scale(1 - t * 0.8, 1 - t * 0.8);
+    }
+    sprites.drawSprite(ctx, actor.sprite);
+    ctx.restore();
+  };
+
+  const drawExplosion = (ctx: CanvasRenderingContext2D, exp: Explosion, duration: number, still: boolean) => {
+    const center = exp.particles[0];
+    const lit = new Set(exp.particles.map(p => `${p.x},${p.y}`));
+    const k = still ? 1 : flameThickness(exp, duration);
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, exp.timer / duration * 3);
+    exp.particles.forEach(p => {
+      const part = flamePart(p, center, lit);
+      ctx.save();
+      ctx.translate(p.x * TILE_SIZE + TILE_SIZE / 2, p.y * TILE_SIZE + TILE_SIZE / 2);
+      // Only the thickness pulses, so arms stay joined end to end
+      if (part === 'center') ctx.scale(k, k);
+      else if (part === 'h' || part === 'tip-left' || part === 'tip-right') ctx.scale(1, k);
+      else ctx.scale(k, 1);
+      sprites.drawSprite(ctx, `flame-${part}`);
+      ctx.restore();
+    });
+    ctx.restore();
+  };
+
+  const drawAt = (ctx: CanvasRenderingContext2D, id: SpriteId, x: number, y: number, scale = 1) => {
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.scale(scale, scale);
+    sprites.drawSprite(ctx, id);
+    ctx.restore();
+  };
+
+  // Renders `alpha` of the way from the previous tick to the current one, so
+  // motion stays smooth whatever the display refresh rate.
+  const draw: Renderer['draw'] = (ctx, state, theme, previous, alpha, options) => {
+    const now = performance.now();
+    const still = options.reducedMotion;
+    const at = (key: string, x: number, y: number) => {
+      const prev = previous.get(key);
+      if (!prev) return { x, y, moving: false };
+      return { x: prev.x + (x - prev.x) * alpha, y: prev.y + (y - prev.y) * alpha, moving: prev.x !== x || prev.y !== y };
+    };
+
+    const actors: Actor[] = [
+      ...state.enemies.map(e => ({
+        key: `e${e.id}`, sprite: `enemy-${e.kind}` as const, flip: e.direction.x < 0, hidden: false, faded: false, ...at(`e${e.id}`, e.x, e.y)
+      })),
+      ...state.players.filter(p => p.alive).map(p => ({
+        key: `p${p.id}`, sprite: `bomber-${p.slot}` as const, flip: false, hidden: !still && isBlinking(p),
+        faded: still && p.invulnerableMs > 0, ...at(`p${p.id}`, p.x, p.y)
+      })),
+    ];
+    trackDeaths(state, actors, now);
+
+    const rows = state.map.length, cols = state.map[0].length;
+    const palette = PALETTE_COLORS[options.palette];
+    ctx.drawImage(syncTiles(state.map, palette ?? THEME_COLORS[theme], palette?.MARK ?? null), 0, 0, cols * TILE_SIZE, rows * TILE_SIZE);
+    if (options.dangerZones) {
+      const ink = palette?.DANGER ?? DANGER_HATCH;
+      dangerTiles(state).forEach((row, r) => row.forEach((hot, c) => {
+        if (hot) drawDangerHatch(ctx, r, c, ink);
+      }));
+    }
+
+    if (state.exit && !state.exit.hidden) {
+      drawAt(ctx, state.exit.open ? 'exit-open' : 'exit', state.exit.x, state.exit.y);
+    }
+    state.powerUps.forEach(item => {
+      if (!item.hidden) drawAt(ctx, `item-${item.type}`, item.x, item.y);
+    });
+    // Fuses pulse faster in their last second, unless motion is reduced;
+    // thrown bombs loom larger, as if nearer the camera, and armed mines lie
+    // half buried
+    state.bombs.forEach(b => {
+      const pos = at(`b${b.id}`, b.x, b.y);
+      if (b.mine) {
+        ctx.globalAlpha = b.timer > 0 ? 1 : 0.6;
+        drawAt(ctx, 'mine', pos.x, pos.y);
+        ctx.globalAlpha = 1;
+        return;
+      }
+      const lift = b.flight ? 1.3 : 1;
+      const pulse = still ? 1 : 1 + Math.sin(state.tick / (b.timer < 1000 ? 2 : 5)) * 0.08;
+      drawAt(ctx, 'bomb', pos.x, pos.y, lift * pulse);
+    });
+    state.explosions.forEach(exp => drawExplosion(ctx, exp, state.rules.explosionMs, still));
+    dying.forEach(actor => drawDying(ctx, actor, now, still));
+    actors.forEach(actor => {
+      if (!actor.hidden) drawActor(ctx, actor, state.tick, still);
+    });
+  };
+
+  return { backend, resolution, draw };
+};
+
+// Keeps the current renderer unless the backend or resolution changed.
+export const rendererFor = (current: Renderer | null, backend: RenderBackend, resolution: number) =>
+  current && current.backend === backend && current.resolution === resolution ? current : createRenderer(backend, resolution);
+
+// --- Settings ---
+
+export const loadGraphics = (): GraphicsSettings => {
+  const defaults: GraphicsSettings = { backend: RenderBackend.Emoji, theme: null, palette: Palette.Standard, reducedMotion: null, dangerZones: false };
+  const stored = readStored(GRAPHICS_STORAGE_KEY) as Partial<GraphicsSettings> | null;
+  if (!stored || typeof stored !== 'object') return defaults;
+  const { backend, theme, palette, reducedMotion, dangerZones } = stored;
+  return {
+    backend: typeof backend === 'number' && backend in RenderBackend ? backend : defaults.backend,
+    theme: typeof theme === 'number' && theme in LevelTheme ? theme : defaults.theme,
+    palette: typeof palette === 'number' && palette in Palette ? palette : defaults.palette,
+    reducedMotion: typeof reducedMotion === 'boolean' ? reducedMotion : defaults.reducedMotion,
+    dangerZones: typeof dangerZones === 'boolean' ? dangerZones : defaults.dangerZones
+  };
+};
+
+export const saveGraphics = (settings: GraphicsSettings) => {
+  writeStored(GRAPHICS_STORAGE_KEY, settings);
+};
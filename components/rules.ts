@@ -0,0 +1,28 @@
+import { RulesPreset, RulesSettings } from '../types';
+import { CLASSIC_RULES, RULES_STORAGE_KEY } from '../constants';
+import { parseRules } from '../engine/rules';
+import { readStored, writeStored } from './storage';
+
+export const DEFAULT_RULES_SETTINGS: RulesSettings = { preset: RulesPreset.Classic, custom: CLASSIC_RULES };
+
+// A stored custom set that no longer passes the limits is dropped for the
+// classic one rather than played out of range.
+export const loadRules = (): RulesSettings => {
+  const stored = readStored(RULES_STORAGE_KEY) as Partial<RulesSettings> | null;
+  if (!stored || typeof stored !== 'object') return DEFAULT_RULES_SETTINGS;
+  const { preset, custom } = stored;
+  let rules = CLASSIC_RULES;
+  try {
+    rules = parseRules(custom);
+  } catch {
+    rules = CLASSIC_RULES;
+  }
+  return {
+    preset: typeof preset === 'number' && preset in RulesPreset ? preset : DEFAULT_RULES_SETTINGS.preset,
+    custom: rules
+  };
+};
+
+export const saveRules = (settings: RulesSettings) => {
+  writeStored(RULES_STORAGE_KEY, settings);
+};
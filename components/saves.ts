@@ -0,0 +1,38 @@
+import { SaveGame } from '../types';
+import { SAVE_STORAGE_KEY } from '../constants';
+import { SaveFormatError, parseSave, serializeSave } from '../engine/save';
+
+export const clearSavedGame = () => {
+  try {
+    localStorage.removeItem(SAVE_STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+};
+
+// A save that is corrupt or from an unsupported version is dropped so the
+// menu simply stops offering to continue it.
+export const loadSavedGame = (): SaveGame | null => {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(SAVE_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+  if (text === null) return null;
+  try {
+    return parseSave(text);
+  } catch (e) {
+    if (!(e instanceof SaveFormatError)) throw e;
+    clearSavedGame();
+    return null;
+  }
+};
+
+export const storeSavedGame = (save: SaveGame) => {
+  try {
+    localStorage.setItem(SAVE_STORAGE_KEY, serializeSave(save));
+  } catch {
+    // Private browsing or a full quota; the game just cannot be continued later
+  }
+};
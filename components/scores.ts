@@ -0,0 +1,54 @@
+import { HighScoreEntry } from '../types';
+import { HIGH_SCORES_STORAGE_KEY, HIGH_SCORE_NAME_LENGTH, HIGH_SCORE_SLOTS } from '../constants';
+import { readStored, writeStored } from './storage';
+
+// Bump when the stored shape changes and teach migrate() the old one.
+const HIGH_SCORES_VERSION = 1;
+
+interface StoredHighScores {
+  version: number;
+  entries: HighScoreEntry[];
+}
+
+const isEntry = (value: unknown): value is HighScoreEntry => {
+  const e = value as HighScoreEntry;
+  return !!e && typeof e.name === 'string' && typeof e.score === 'number' && typeof e.stage === 'number' && typeof e.date === 'string';
+};
+
+// Brings a stored table up to the current version. Unknown versions, such as
+// one written by a newer build, are left alone rather than misread.
+const migrate = (stored: StoredHighScores): HighScoreEntry[] | null => {
+  switch (stored.version) {
+    case HIGH_SCORES_VERSION:
+      return stored.entries;
+    default:
+      return null;
+  }
+};
+
+const byScore = (a: HighScoreEntry, b: HighScoreEntry) => b.score - a.score || a.date.localeCompare(b.date);
+
+export const loadHighScores = (): HighScoreEntry[] => {
+  const table = readStored(HIGH_SCORES_STORAGE_KEY) as StoredHighScores | null;
+  if (!table || typeof table.version !== 'number' || !Array.isArray(table.entries)) return [];
+  return (migrate(table) ?? []).filter(isEntry).sort(byScore).slice(0, HIGH_SCORE_SLOTS);
+};
+
+export const saveHighScores = (entries: HighScoreEntry[]) => {
+  const stored: StoredHighScores = { version: HIGH_SCORES_VERSION, entries };
+  writeStored(HIGH_SCORES_STORAGE_KEY, stored);
+};
+
+export const qualifies = (entries: HighScoreEntry[], score: number) => {
+  if (score <= 0) return false;
+  return entries.length < HIGH_SCORE_SLOTS || score > entries[entries.length - 1].score;
+};
+
+export const cleanName = (name: string) => name.trim().slice(0, HIGH_SCORE_NAME_LENGTH) || '???';
+
+// Inserts a run into the table. Returns the new table and the entry's rank,
+// or -1 when it did not make the cut.
+export const addHighScore = (entries: HighScoreEntry[], entry: HighScoreEntry): { entries: HighScoreEntry[]; rank: number } => {
+  const next = [...entries, entry].sort(byScore).slice(0, HIGH_SCORE_SLOTS);
+  return { entries: next, rank: next.indexOf(entry) };
+};
@@ -0,0 +1,477 @@
+import { EnemyKind, Point, PowerUpType, RenderBackend, TileType } from '../types';
+import { TILE_SIZE, BOMBER_EMOJIS, COLORS, EMOJIS, ENEMY_ARCHETYPES, POWER_UP_EMOJIS } from '../constants';
+import { ThemeColors, drawEmojiTile, drawFloor, drawPowerUp, setEmojiFont } from './tiles';
+import { arrowDir, conveyorDir } from '../engine/grid';
+
+export type FlamePart = 'center' | 'h' | 'v' | 'tip-up' | 'tip-down' | 'tip-left' | 'tip-right';
+
+export type SpriteId =
+  | `bomber-${number}`
+  | `enemy-${EnemyKind}`
+  | `item-${PowerUpType}`
+  | `flame-${FlamePart}`
+  | 'bomb'
+  | 'mine'
+  | 'exit'
+  | 'exit-open';
+
+// Draws the game's art. Tiles fill their grid cell; sprites are centred on
+// the current origin so callers can move, scale and rotate them freely.
+export interface SpriteBackend {
+  drawTile: (ctx: CanvasRenderingContext2D, tile: TileType, r: number, c: number, colors: ThemeColors) => void;
+  drawSprite: (ctx: CanvasRenderingContext2D, id: SpriteId) => void;
+}
+
+type Painter = (ctx: CanvasRenderingContext2D) => void;
+
+const S = TILE_SIZE;
+const FLAME_PARTS: FlamePart[] = ['center', 'h', 'v', 'tip-up', 'tip-down', 'tip-left', 'tip-right'];
+const ENEMY_KINDS = Object.keys(ENEMY_ARCHETYPES).map(Number) as EnemyKind[];
+const ITEM_TYPES = Object.keys(POWER_UP_EMOJIS).map(Number) as PowerUpType[];
+const ATLAS_COLUMNS = 8;
+
+// Paints every sprite once into a grid on an offscreen canvas; drawing one is
+// then a single image blit. `resolution` is device pixels per world pixel, so
+// the blit is never upscaled on HiDPI screens.
+const buildAtlas = (sprites: [SpriteId, Painter][], resolution: number, setup: Painter = () => {}) => {
+  const canvas = document.createElement('canvas');
+  const cell = Math.ceil(S * resolution);
+  canvas.width = ATLAS_COLUMNS * cell;
+  canvas.height = Math.ceil(sprites.length / ATLAS_COLUMNS) * cell;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(cell / S, cell / S);
+  const cells = new Map<SpriteId, { x: number; y: number }>();
+  sprites.forEach(([id, paint], i) => {
+    const x = (i % ATLAS_COLUMNS) * S, y = Math.floor(i / ATLAS_COLUMNS) * S;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, S, S);
+    ctx.clip();
+    ctx.translate(x + S / 2, y + S / 2);
+    setup(ctx);
+    paint(ctx);
+    ctx.restore();
+    cells.set(id, { x: x / S * cell, y: y / S * cell });
+  });
+  return (target: CanvasRenderingContext2D, id: SpriteId) => {
+    const at = cells.get(id);
+    if (at) target.drawImage(canvas, at.x, at.y, cell, cell, -S / 2, -S / 2, S, S);
+  };
+};
+
+// --- Flames ---
+
+const FLAME_LAYERS = [
+  { color: '#E64A19', width: 0.8 },
+  { color: '#FFA000', width: 0.55 },
+  { color: '#FFF59D', width: 0.25 },
+];
+const FLAME_ROTATION: Record<FlamePart, number> = {
+  center: 0, h: 0, v: Math.PI / 2, 'tip-right': 0, 'tip-down': Math.PI / 2, 'tip-left': Math.PI, 'tip-up': -Math.PI / 2
+};
+
+// Both backends draw flames as shapes: a glyph cannot be cut into a centre,
+// arms and rounded tips that join up across tiles.
+const paintFlame = (ctx: CanvasRenderingContext2D, part: FlamePart) => {
+  ctx.rotate(FLAME_ROTATION[part]);
+  FLAME_LAYERS.forEach(({ color, width }) => {
+    const half = width * S / 2;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    if (part === 'center') {
+      ctx.arc(0, 0, half, 0, Math.PI * 2);
+    } else if (part === 'h' || part === 'v') {
+      ctx.rect(-S / 2, -half, S, half * 2);
+    } else {
+      ctx.rect(-S / 2, -half, S / 2, half * 2);
+      ctx.arc(0, 0, half, -Math.PI / 2, Math.PI / 2);
+    }
+    ctx.fill();
+  });
+};
+
+const flameSprites = FLAME_PARTS.map((part): [SpriteId, Painter] => [`flame-${part}`, ctx => paintFlame(ctx, part)]);
+
+// --- Emoji backend ---
+
+const glyph = (emoji: string): Painter => ctx => ctx.fillText(emoji, 0, 0);
+
+export const createEmojiBackend = (resolution = 1): SpriteBackend => ({
+  drawTile: (ctx, tile, r, c, colors) => {
+    setEmojiFont(ctx);
+    drawEmojiTile(ctx, tile, r, c, colors);
+  },
+  drawSprite: buildAtlas([
+    ...BOMBER_EMOJIS.map((emoji, i): [SpriteId, Painter] => [`bomber-${i}`, glyph(emoji)]),
+    ...ENEMY_KINDS.map((kind): [SpriteId, Painter] => [`enemy-${kind}`, glyph(ENEMY_ARCHETYPES[kind].emoji)]),
+    ...ITEM_TYPES.map((type): [SpriteId, Painter] => [`item-${type}`, ctx => drawPowerUp(ctx, type, 0, 0)]),
+    ...flameSprites,
+    ['bomb', glyph(EMOJIS.BOMB)],
+    ['mine', glyph(EMOJIS.MINE)],
+    ['exit', glyph(EMOJIS.EXIT)],
+    ['exit-open', glyph(EMOJIS.EXIT_OPEN)],
+  ], resolution, setEmojiFont)
+});
+
+// --- Vector sprite backend ---
+
+// Lightens (amount > 0) or darkens a #rrggbb colour.
+const shade = (hex: string, amount: number) => {
+  const channels = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const mixed = channels.map(v => Math.round(amount > 0 ? v + (255 - v) * amount : v * (1 + amount)));
+  return `rgb(${mixed.join(',')})`;
+};
+
+const circle = (ctx: CanvasRenderingContext2D, x: number, y: number, radius: number, color: string) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const ellipse = (ctx: CanvasRenderingContext2D, x: number, y: number, rx: number, ry: number, color: string, rotation = 0) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.ellipse(x, y, rx, ry, rotation, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const eyes = (ctx: CanvasRenderingContext2D, y: number, spread: number, size: number) => {
+  [-spread, spread].forEach(x => {
+    circle(ctx, x, y, size, 'white');
+    circle(ctx, x, y + size * 0.2, size * 0.55, '#111');
+  });
+};
+
+// Three courses of offset bricks
+const paintBricks = (ctx: CanvasRenderingContext2D, x: number, y: number, color: string) => {
+  const course = S / 3;
+  ctx.fillStyle = shade(color, -0.4);
+  ctx.fillRect(x + 1, y + 1, S - 2, S - 2);
+  for (let i = 0; i < 3; i++) {
+    const offset = i % 2 === 0 ? 0 : S / 4;
+    for (let bx = -S / 4 + offset; bx < S; bx += S / 2) {
+      const left = Math.max(bx, 0) + 2, right = Math.min(bx + S / 2, S) - 2;
+      if (right <= left) continue;
+      ctx.fillStyle = color;
+      ctx.fillRect(x + left, y + i * course + 2, right - left, course - 4);
+      ctx.fillStyle = shade(color, 0.25);
+      ctx.fillRect(x + left, y + i * course + 2, right - left, 2);
+    }
+  }
+};
+
+// Runs `paint` in a frame centred on the tile and turned to face `dir`.
+const facing = (ctx: CanvasRenderingContext2D, x: number, y: number, dir: Point, paint: () => void) => {
+  ctx.save();
+  ctx.translate(x + S / 2, y + S / 2);
+  ctx.rotate(Math.atan2(dir.y, dir.x));
+  paint();
+  ctx.restore();
+};
+
+const chevron = (ctx: CanvasRenderingContext2D, at: number, size: number) => {
+  ctx.beginPath();
+  ctx.moveTo(at - size / 2, -size);
+  ctx.lineTo(at + size / 2, 0);
+  ctx.lineTo(at - size / 2, size);
+  ctx.stroke();
+};
+
+// Conveyors, ice, one-way arrows and teleporters on top of the floor.
+const paintSpecialFloor = (ctx: CanvasRenderingContext2D, tile: TileType, x: number, y: number) => {
+  const belt = conveyorDir(tile);
+  const arrow = arrowDir(tile);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (belt) {
+    ctx.fillStyle = COLORS.CONVEYOR;
+    ctx.fillRect(x + 2, y + 2, S - 4, S - 4);
+    ctx.strokeStyle = '#FFCA28';
+    ctx.lineWidth = S * 0.06;
+    facing(ctx, x, y, belt, () => [-S * 0.22, 0, S * 0.22].forEach(at => chevron(ctx, at, S * 0.12)));
+  } else if (arrow) {
+    ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+    ctx.lineWidth = S * 0.1;
+    facing(ctx, x, y, arrow, () => {
+      ctx.beginPath();
+      ctx.moveTo(-S * 0.25, 0);
+      ctx.lineTo(S * 0.2, 0);
+      ctx.stroke();
+      chevron(ctx, S * 0.12, S * 0.2);
+    });
+  } else if (tile === TileType.Ice) {
+    ctx.fillStyle = COLORS.ICE;
+    ctx.fillRect(x + 1, y + 1, S - 2, S - 2);
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    ctx.lineWidth = S * 0.04;
+    [[0.2, 0.45, 0.45, 0.2], [0.5, 0.8, 0.8, 0.5]].forEach(([x1, y1, x2, y2]) => {
+      ctx.beginPath();
+      ctx.moveTo(x + S * x1, y + S * y1);
+      ctx.lineTo(x + S * x2, y + S * y2);
+      ctx.stroke();
+    });
+  } else if (tile === TileType.Teleporter) {
+    [0.4, 0.28, 0.16].forEach((radius, i) => {
+      circle(ctx, x + S / 2, y + S / 2, S * radius, i % 2 === 0 ? COLORS.TELEPORTER : shade(COLORS.TELEPORTER, 0.5));
+    });
+  }
+};
+
+const paintSpriteTile = (ctx: CanvasRenderingContext2D, tile: TileType, r: number, c: number, colors: ThemeColors) => {
+  const x = c * S, y = r * S;
+  drawFloor(ctx, r, c, colors);
+  if (tile === TileType.HardWall) {
+    // Bevelled stone block
+    const bevel = S * 0.12;
+    ctx.fillStyle = shade(colors.HARD_WALL_BG, 0.25);
+    ctx.fillRect(x, y, S, S);
+    ctx.fillStyle = shade(colors.HARD_WALL_BG, -0.35);
+    ctx.beginPath();
+    ctx.moveTo(x + S, y);
+    ctx.lineTo(x + S, y + S);
+    ctx.lineTo(x, y + S);
+    ctx.closePath();
+    ctx.fill();
+    ctx.fillStyle = colors.HARD_WALL_BG;
+    ctx.fillRect(x + bevel, y + bevel, S - bevel * 2, S - bevel * 2);
+  } else if (tile === TileType.SoftWall) {
+    paintBricks(ctx, x, y, colors.SOFT_WALL_BG);
+  } else if (tile === TileType.ToughWall) {
+    // Grey bricks held together by iron bands
+    paintBricks(ctx, x, y, shade(colors.HARD_WALL_BG, 0.45));
+    ctx.fillStyle = '#546E7A';
+    [0.3, 0.7].forEach(at => ctx.fillRect(x + S * at - S * 0.05, y + 1, S * 0.1, S - 2));
+  } else {
+    paintSpecialFloor(ctx, tile, x, y);
+  }
+};
+
+type EarStyle = 'long' | 'pointed' | 'round' | 'bulging';
+
+const BOMBER_STYLES: { body: string; accent: string; ears: EarStyle }[] = [
+  { body: '#F5F5F5', accent: '#F48FB1', ears: 'long' }, // Bunny
+  { body: '#FF8A3D', accent: '#FFFFFF', ears: 'pointed' }, // Fox
+  { body: '#FAFAFA', accent: '#212121', ears: 'round' }, // Panda
+  { body: '#66BB6A', accent: '#C5E1A5', ears: 'bulging' }, // Frog
+];
+
+const paintBomber = (ctx: CanvasRenderingContext2D, slot: number) => {
+  const { body, accent, ears } = BOMBER_STYLES[slot % BOMBER_STYLES.length];
+  const side = [-1, 1];
+  if (ears === 'long') side.forEach(d => {
+    ellipse(ctx, d * S * 0.12, -S * 0.28, S * 0.07, S * 0.17, body, d * 0.15);
+    ellipse(ctx, d * S * 0.12, -S * 0.27, S * 0.035, S * 0.12, accent, d * 0.15);
+  });
+  if (ears === 'pointed') side.forEach(d => {
+    ctx.fillStyle = body;
+    ctx.beginPath();
+    ctx.moveTo(d * S * 0.28, -S * 0.05);
+    ctx.lineTo(d * S * 0.24, -S * 0.38);
+    ctx.lineTo(d * S * 0.04, -S * 0.2);
+    ctx.fill();
+  });
+  if (ears === 'round') side.forEach(d => circle(ctx, d * S * 0.22, -S * 0.2, S * 0.1, accent));
+  circle(ctx, 0, S * 0.05, S * 0.3, body);
+  ctx.strokeStyle = 'rgba(0,0,0,0.35)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  if (ears === 'pointed') ellipse(ctx, 0, S * 0.18, S * 0.16, S * 0.12, accent);
+  if (ears === 'round') side.forEach(d => ellipse(ctx, d * S * 0.11, S * 0.02, S * 0.07, S * 0.09, accent, d * -0.5));
+  if (ears === 'bulging') {
+    side.forEach(d => circle(ctx, d * S * 0.14, -S * 0.2, S * 0.1, body));
+    eyes(ctx, -S * 0.2, S * 0.14, S * 0.07);
+    ellipse(ctx, 0, S * 0.15, S * 0.14, S * 0.05, accent);
+    return;
+  }
+  eyes(ctx, 0, S * 0.1, S * 0.055);
+  circle(ctx, 0, S * 0.12, S * 0.035, ears === 'long' ? accent : '#212121');
+};
+
+const paintEnemy = (ctx: CanvasRenderingContext2D, kind: EnemyKind) => {
+  switch (kind) {
+    case EnemyKind.Wanderer: {
+      // Sheet ghost with a wavy hem
+      ctx.fillStyle = '#E1D5F5';
+      ctx.beginPath();
+      ctx.arc(0, -S * 0.05, S * 0.3, Math.PI, 0);
+      ctx.lineTo(S * 0.3, S * 0.32);
+      for (let i = 0; i < 4; i++) {
+        const x = S * 0.3 - (i + 1) * S * 0.15;
+        ctx.quadraticCurveTo(x + S * 0.075, i % 2 === 0 ? S * 0.2 : S * 0.38, x, S * 0.32);
+      }
+      ctx.fill();
+      eyes(ctx, -S * 0.06, S * 0.1, S * 0.07);
+      break;
+    }
+    case EnemyKind.Chaser:
+      [-1, 1].forEach(d => {
+        ctx.fillStyle = '#FFF3E0';
+        ctx.beginPath();
+        ctx.moveTo(d * S * 0.12, -S * 0.2);
+        ctx.lineTo(d * S * 0.26, -S * 0.4);
+        ctx.lineTo(d * S * 0.25, -S * 0.15);
+        ctx.fill();
+      });
+      circle(ctx, 0, S * 0.04, S * 0.3, '#D32F2F');
+      eyes(ctx, -S * 0.02, S * 0.11, S * 0.07);
+      ctx.fillStyle = '#FFF3E0';
+      ctx.fillRect(-S * 0.12, S * 0.16, S * 0.24, S * 0.05);
+      break;
+    case EnemyKind.BombAvoider:
+      [-1, 1].forEach(d => {
+        ctx.fillStyle = '#4A148C';
+        ctx.beginPath();
+        ctx.moveTo(d * S * 0.1, -S * 0.08);
+        ctx.lineTo(d * S * 0.45, -S * 0.2);
+        ctx.lineTo(d * S * 0.36, S * 0.02);
+        ctx.lineTo(d * S * 0.42, S * 0.14);
+        ctx.lineTo(d * S * 0.1, S * 0.1);
+        ctx.fill();
+      });
+      circle(ctx, 0, 0, S * 0.17, '#311B92');
+      circle(ctx, -S * 0.06, -S * 0.03, S * 0.04, '#FFEB3B');
+      circle(ctx, S * 0.06, -S * 0.03, S * 0.04, '#FFEB3B');
+      break;
+    case EnemyKind.Ghost:
+      ellipse(ctx, 0, 0, S * 0.38, S * 0.24, 'rgba(255,255,255,0.85)');
+      circle(ctx, 0, 0, S * 0.17, '#1E88E5');
+      circle(ctx, 0, 0, S * 0.08, '#0D1321');
+      circle(ctx, -S * 0.05, -S * 0.06, S * 0.035, 'white');
+      break;
+    case EnemyKind.Speedy:
+      ctx.strokeStyle = '#43A047';
+      ctx.lineWidth = S * 0.14;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(-S * 0.35, S * 0.25);
+      ctx.bezierCurveTo(-S * 0.1, -S * 0.05, S * 0.05, S * 0.35, S * 0.2, S * 0.02);
+      ctx.stroke();
+      circle(ctx, S * 0.22, -S * 0.08, S * 0.14, '#2E7D32');
+      circle(ctx, S * 0.26, -S * 0.12, S * 0.035, '#FFEB3B');
+      break;
+  }
+};
+
+const paintBomb = (ctx: CanvasRenderingContext2D) => {
+  ctx.strokeStyle = '#8D6E63';
+  ctx.lineWidth = S * 0.05;
+  ctx.beginPath();
+  ctx.moveTo(S * 0.12, -S * 0.18);
+  ctx.quadraticCurveTo(S * 0.2, -S * 0.36, S * 0.3, -S * 0.3);
+  ctx.stroke();
+  circle(ctx, S * 0.31, -S * 0.31, S * 0.06, '#FFC107');
+  circle(ctx, 0, S * 0.06, S * 0.28, '#212121');
+  circle(ctx, -S * 0.1, -S * 0.04, S * 0.07, '#616161');
+};
+
+const paintMine = (ctx: CanvasRenderingContext2D) => {
+  ellipse(ctx, 0, S * 0.08, S * 0.3, S * 0.16, '#37474F');
+  ellipse(ctx, 0, S * 0.04, S * 0.22, S * 0.1, '#607D8B');
+  circle(ctx, 0, S * 0.02, S * 0.05, '#E53935');
+};
+
+const paintItemIcon = (ctx: CanvasRenderingContext2D, type: PowerUpType) => {
+  ctx.strokeStyle = 'white';
+  ctx.fillStyle = 'white';
+  ctx.lineWidth = S * 0.06;
+  ctx.lineCap = 'round';
+  switch (type) {
+    case PowerUpType.ExtraBomb:
+      ctx.scale(0.6, 0.6);
+      paintBomb(ctx);
+      break;
+    case PowerUpType.FireRange:
+      ctx.scale(0.55, 0.55);
+      paintFlame(ctx, 'center');
+      break;
+    case PowerUpType.Speed:
+      [-0.1, 0.08].forEach(dx => {
+        ctx.beginPath();
+        ctx.moveTo(S * (dx - 0.06), -S * 0.12);
+        ctx.lineTo(S * (dx + 0.06), 0);
+        ctx.lineTo(S * (dx - 0.06), S * 0.12);
+        ctx.stroke();
+      });
+      break;
+    case PowerUpType.Kick:
+      ctx.fillRect(-S * 0.1, -S * 0.16, S * 0.1, S * 0.22);
+      ctx.fillRect(-S * 0.1, S * 0.04, S * 0.24, S * 0.1);
+      break;
+    case PowerUpType.Remote:
+      ctx.fillRect(-S * 0.08, -S * 0.02, S * 0.16, S * 0.2);
+      ctx.beginPath();
+      ctx.moveTo(0, -S * 0.02);
+      ctx.lineTo(S * 0.08, -S * 0.18);
+      ctx.stroke();
+      circle(ctx, 0, S * 0.06, S * 0.03, '#E53935');
+      break;
+    case PowerUpType.Pierce:
+      ctx.beginPath();
+      ctx.moveTo(-S * 0.15, S * 0.15);
+      ctx.lineTo(S * 0.08, -S * 0.08);
+      ctx.stroke();
+      circle(ctx, S * 0.1, -S * 0.1, S * 0.07, '#FFEB3B');
+      break;
+    case PowerUpType.Mine:
+      ctx.scale(0.7, 0.7);
+      paintMine(ctx);
+      break;
+    case PowerUpType.Throw:
+      // Glove: palm, three fingers and a thumb
+      ctx.beginPath();
+      ctx.roundRect(-S * 0.12, -S * 0.02, S * 0.22, S * 0.18, S * 0.04);
+      ctx.fill();
+      [-0.09, -0.01, 0.07].forEach(fx => ctx.fillRect(S * fx, -S * 0.16, S * 0.06, S * 0.16));
+      ellipse(ctx, -S * 0.14, S * 0.02, S * 0.04, S * 0.08, 'white', -0.5);
+      break;
+    case PowerUpType.Skull:
+      circle(ctx, 0, -S * 0.03, S * 0.14, 'white');
+      ctx.fillRect(-S * 0.08, S * 0.06, S * 0.16, S * 0.09);
+      circle(ctx, -S * 0.055, -S * 0.03, S * 0.04, COLORS.SKULL_BG);
+      circle(ctx, S * 0.055, -S * 0.03, S * 0.04, COLORS.SKULL_BG);
+      break;
+  }
+};
+
+const paintItem = (ctx: CanvasRenderingContext2D, type: PowerUpType) => {
+  const size = S - 12;
+  ctx.fillStyle = type === PowerUpType.Skull ? COLORS.SKULL_BG : COLORS.POWER_UP_BG;
+  ctx.beginPath();
+  ctx.roundRect(-size / 2, -size / 2, size, size, S * 0.1);
+  ctx.fill();
+  paintItemIcon(ctx, type);
+};
+
+const paintExit = (ctx: CanvasRenderingContext2D, open: boolean) => {
+  if (open) {
+    ellipse(ctx, 0, S * 0.05, S * 0.36, S * 0.24, '#5D4037');
+    ellipse(ctx, 0, S * 0.07, S * 0.3, S * 0.18, '#0B0B0B');
+    return;
+  }
+  ctx.fillStyle = '#6D4C41';
+  ctx.beginPath();
+  ctx.moveTo(-S * 0.25, S * 0.38);
+  ctx.lineTo(-S * 0.25, -S * 0.15);
+  ctx.arc(0, -S * 0.15, S * 0.25, Math.PI, 0);
+  ctx.lineTo(S * 0.25, S * 0.38);
+  ctx.fill();
+  circle(ctx, S * 0.12, S * 0.1, S * 0.035, '#FFC107');
+};
+
+export const createSpriteBackend = (resolution = 1): SpriteBackend => ({
+  drawTile: paintSpriteTile,
+  drawSprite: buildAtlas([
+    ...BOMBER_EMOJIS.map((_, i): [SpriteId, Painter] => [`bomber-${i}`, ctx => paintBomber(ctx, i)]),
+    ...ENEMY_KINDS.map((kind): [SpriteId, Painter] => [`enemy-${kind}`, ctx => paintEnemy(ctx, kind)]),
+    ...ITEM_TYPES.map((type): [SpriteId, Painter] => [`item-${type}`, ctx => paintItem(ctx, type)]),
+    ...flameSprites,
+    ['bomb', paintBomb],
+    ['mine', paintMine],
+    ['exit', ctx => paintExit(ctx, false)],
+    ['exit-open', ctx => paintExit(ctx, true)],
+  ], resolution)
+});
+
+export const createBackend = (backend: RenderBackend, resolution = 1) =>
+  backend === RenderBackend.Sprites ? createSpriteBackend(resolution) : createEmojiBackend(resolution);
@@ -0,0 +1,20 @@
+// Settings and records kept in localStorage. Storage can be missing, as in
+// private browsing, or full, and holds whatever an older build wrote, so
+// callers validate what they read and keep what they write in memory too.
+
+// The parsed value under the key; null when there is none or it cannot be read.
+export const readStored = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const writeStored = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Private browsing or a full quota; the value only lasts this session
+  }
+};
@@ -0,0 +1,105 @@
+import { TileType, PowerUpType } from '../types';
+import { TILE_SIZE, EMOJIS, COLORS, POWER_UP_EMOJIS, THEME_COLORS, TILE_EMOJIS } from '../constants';
+import { conveyorDir } from '../engine/grid';
+
+export type ThemeColors = typeof THEME_COLORS[keyof typeof THEME_COLORS];
+
+export const setEmojiFont = (ctx: CanvasRenderingContext2D) => {
+  ctx.font = `${TILE_SIZE * 0.75}px 'Apple Color Emoji', 'Segoe UI Emoji', sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+};
+
+// Checkerboard floor under the tile at (r, c).
+export const drawFloor = (ctx: CanvasRenderingContext2D, r: number, c: number, colors: ThemeColors) => {
+  ctx.fillStyle = (r + c) % 2 === 1 ? colors.GRASS_ALT : colors.GRASS;
+  ctx.fillRect(c * TILE_SIZE, r * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+};
+
+// Backing colour for a special floor tile's glyph, if it has one.
+const floorTint = (tile: TileType) => {
+  if (tile === TileType.Ice) return COLORS.ICE;
+  if (tile === TileType.Teleporter) return COLORS.TELEPORTER;
+  return conveyorDir(tile) ? COLORS.CONVEYOR : null;
+};
+
+export const drawEmojiTile = (ctx: CanvasRenderingContext2D, tile: TileType, r: number, c: number, colors: ThemeColors) => {
+  const x = c * TILE_SIZE, y = r * TILE_SIZE;
+  drawFloor(ctx, r, c, colors);
+  if (tile === TileType.HardWall) {
+    ctx.fillStyle = colors.HARD_WALL_BG;
+    ctx.fillRect(x, y, TILE_SIZE, TILE_SIZE);
+    ctx.fillStyle = 'white';
+    ctx.fillText(EMOJIS.HARD_WALL, x + TILE_SIZE/2, y + TILE_SIZE/2);
+  } else if (tile === TileType.SoftWall) {
+    ctx.fillStyle = colors.SOFT_WALL_BG;
+    ctx.fillRect(x + 2, y + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+    ctx.fillStyle = 'white';
+    ctx.fillText(EMOJIS.SOFT_WALL, x + TILE_SIZE/2, y + TILE_SIZE/2);
+  } else if (tile === TileType.ToughWall) {
+    ctx.fillStyle = colors.HARD_WALL_BG;
+    ctx.fillRect(x + 2, y + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+    ctx.fillStyle = 'white';
+    ctx.fillText(EMOJIS.TOUGH_WALL, x + TILE_SIZE/2, y + TILE_SIZE/2);
+  } else if (TILE_EMOJIS[tile]) {
+    const tint = floorTint(tile);
+    if (tint) {
+      ctx.fillStyle = tint;
+      ctx.fillRect(x + 2, y + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+    }
+    ctx.fillStyle = 'white';
+    ctx.fillText(TILE_EMOJIS[tile]!, x + TILE_SIZE/2, y + TILE_SIZE/2);
+  }
+};
+
+// Accessible palettes tell the walls apart by shape as well as colour: a
+// cross for solid walls, boxed for tough ones, a ring for breakable ones.
+export const drawTileMark = (ctx: CanvasRenderingContext2D, tile: TileType, r: number, c: number, ink: string) => {
+  if (tile !== TileType.HardWall && tile !== TileType.ToughWall && tile !== TileType.SoftWall) return;
+  const x = c * TILE_SIZE, y = r * TILE_SIZE, inset = TILE_SIZE * 0.25;
+  ctx.save();
+  ctx.strokeStyle = ink;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  if (tile === TileType.SoftWall) {
+    ctx.arc(x + TILE_SIZE / 2, y + TILE_SIZE / 2, TILE_SIZE * 0.2, 0, Math.PI * 2);
+  } else {
+    ctx.moveTo(x + inset, y + inset);
+    ctx.lineTo(x + TILE_SIZE - inset, y + TILE_SIZE - inset);
+    ctx.moveTo(x + TILE_SIZE - inset, y + inset);
+    ctx.lineTo(x + inset, y + TILE_SIZE - inset);
+    if (tile === TileType.ToughWall) ctx.rect(x + inset / 2, y + inset / 2, TILE_SIZE - inset, TILE_SIZE - inset);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Diagonal stripes over a tile that a bomb is about to blast.
+export const drawDangerHatch = (ctx: CanvasRenderingContext2D, r: number, c: number, ink: string) => {
+  const x = c * TILE_SIZE, y = r * TILE_SIZE, gap = TILE_SIZE / 4;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, TILE_SIZE, TILE_SIZE);
+  ctx.clip();
+  ctx.strokeStyle = ink;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let d = gap / 2; d < TILE_SIZE * 2; d += gap) {
+    ctx.moveTo(x + d, y);
+    ctx.lineTo(x + d - TILE_SIZE, y + TILE_SIZE);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+// Grass, checkerboard and walls; used by the level editor.
+export const drawTileLayer = (ctx: CanvasRenderingContext2D, map: TileType[][], colors: ThemeColors) => {
+  setEmojiFont(ctx);
+  map.forEach((row, r) => row.forEach((tile, c) => drawEmojiTile(ctx, tile, r, c, colors)));
+};
+
+export const drawPowerUp = (ctx: CanvasRenderingContext2D, type: PowerUpType, x: number, y: number) => {
+  ctx.fillStyle = type === PowerUpType.Skull ? COLORS.SKULL_BG : COLORS.POWER_UP_BG;
+  ctx.fillRect(x - TILE_SIZE/2 + 6, y - TILE_SIZE/2 + 6, TILE_SIZE - 12, TILE_SIZE - 12);
+  ctx.fillText(POWER_UP_EMOJIS[type], x, y);
+};
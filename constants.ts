@@ -1,20 +1,136 @@
-export const TILE_SIZE = 48; // Pixels per grid cell
-export const GRID_ROWS = 15;
+import { CpuDifficulty, DropTable, EnemyKind, KeyBinding, LevelTheme, MatchRules, Palette, PowerUpType, RulesPreset, TileType } from './types';
+
+export const TILE_SIZE = 48; // World pixels per grid cell; the screen scale is separate
+export const GRID_ROWS = 15; // Arena size when a game does not pick one
 export const GRID_COLS = 15;
-export const CANVAS_WIDTH = GRID_COLS * TILE_SIZE;
-export const CANVAS_HEIGHT = GRID_ROWS * TILE_SIZE;
 
-export const FPS = 60;
-export const BOMB_TIMER_MS = 3000; // 3 seconds
-export const EXPLOSION_DURATION_MS = 600;
+// Battle arena choices; both sides odd so the pillar pattern closes the border
+export const ARENA_SIZES: { label: string; rows: number; cols: number }[] = [
+  { label: 'SMALL', rows: 11, cols: 13 },
+  { label: 'CLASSIC', rows: GRID_ROWS, cols: GRID_COLS },
+  { label: 'LARGE', rows: 19, cols: 23 },
+  { label: 'HUGE', rows: 25, cols: 31 },
+];
+
+// Most of the map shown at once; bigger maps scroll with the players
+export const MAX_VIEW_ROWS = 15;
+export const MAX_VIEW_COLS = 17;
+export const CAMERA_MARGIN_TILES = 2; // Kept around the players when the camera zooms out to fit them all
+export const CAMERA_SMOOTHING_MS = 150; // Time constant of the camera easing towards its target
+
+export const FPS = 60; // Simulation ticks per second, independent of the display refresh rate
+export const TICK_MS = 1000 / FPS;
+export const MAX_CATCH_UP_TICKS = 5; // Ticks simulated per frame at most; the rest of a long stall is dropped
+export const DEATH_ANIMATION_MS = 600;
+export const KICK_SPEED = 6; // Pixels per step for a sliding bomb
+export const THROW_SPEED = 12; // Pixels per step for a thrown bomb
+export const THROW_DISTANCE = 3; // Tiles a thrown bomb flies before looking for somewhere to land
+export const CONVEYOR_SPEED = 2; // Pixels per step a belt carries whatever is on it
+export const MINE_ARM_MS = 1500; // Time to get clear of a freshly laid mine
+export const MINES_PER_PICKUP = 3;
+
+export const CAMPAIGN_LIVES = 3;
+export const RESPAWN_DELAY_MS = 1500;
+export const RESPAWN_INVULNERABLE_MS = 3000;
+
+// Scoring; enemy values live in ENEMY_ARCHETYPES
+export const SOFT_WALL_POINTS = 10;
+export const RIVAL_POINTS = 1000; // For blowing up a CPU bomber
+export const CHAIN_BONUS_POINTS = 50; // Per bomb set off by another bomb's flames
+export const MULTI_KILL_MAX_MULTIPLIER = 8; // Each further enemy in one chain doubles, up to this
+export const TIME_BONUS_POINTS = 10; // Per whole second left when the stage is cleared
+
+export const SPAWN_SAFE_RADIUS = 3; // Tiles around the player spawn kept free of enemies
+
+export const POWER_UP_DROP_TABLE: DropTable = {
+  chance: 0.35,
+  weights: {
+    [PowerUpType.ExtraBomb]: 6,
+    [PowerUpType.FireRange]: 6,
+    [PowerUpType.Speed]: 4,
+    [PowerUpType.Kick]: 2,
+    [PowerUpType.Remote]: 1,
+    [PowerUpType.Pierce]: 1,
+    [PowerUpType.Skull]: 2,
+    [PowerUpType.Mine]: 1,
+    [PowerUpType.Throw]: 1,
+  },
+};
+
+export const POWER_UP_SIZE = 30; // Pick-up area of an item, in world pixels
+export const MAX_BOMBS = 8;
+export const MAX_BLAST_RADIUS = 8;
+export const MAX_SPEED = 7;
+export const CURSE_DURATION_MS = 10000;
+export const CURSED_SPEED = 2;
+
+// --- Match rules ---
+
+// The game as designed; campaign stages are tuned for these
+export const CLASSIC_RULES: MatchRules = {
+  bombTimerMs: 3000,
+  explosionMs: 600,
+  softWallDensity: 0.3,
+  enemyCount: 4,
+  spawnSafeRadius: SPAWN_SAFE_RADIUS,
+  hitboxSize: 30,
+  startBombs: 3,
+  startRange: 2,
+  startSpeed: 4
+};
+
+export const RULE_PRESETS: Record<Exclude<RulesPreset, RulesPreset.Custom>, MatchRules> = {
+  [RulesPreset.Easy]: { ...CLASSIC_RULES, bombTimerMs: 3500, softWallDensity: 0.25, enemyCount: 2, spawnSafeRadius: 4, hitboxSize: 26 },
+  [RulesPreset.Classic]: CLASSIC_RULES,
+  [RulesPreset.Chaos]: {
+    ...CLASSIC_RULES, bombTimerMs: 2000, explosionMs: 800, softWallDensity: 0.5, enemyCount: 8, spawnSafeRadius: 2,
+    startBombs: 6, startRange: 4, startSpeed: 5
+  },
+};
+
+// Hitboxes must leave room to turn into a corridor, every stage needs an
+// enemy or it is won on the first step, and power-ups can't exceed their caps
+export const RULE_LIMITS: Record<keyof MatchRules, { label: string; min: number; max: number; step: number }> = {
+  bombTimerMs: { label: 'Bomb fuse (ms)', min: 1000, max: 6000, step: 250 },
+  explosionMs: { label: 'Flame time (ms)', min: 200, max: 2000, step: 100 },
+  softWallDensity: { label: 'Soft walls', min: 0, max: 0.8, step: 0.05 },
+  enemyCount: { label: 'Enemies', min: 1, max: 12, step: 1 },
+  spawnSafeRadius: { label: 'Safe zone (tiles)', min: 1, max: 6, step: 1 },
+  hitboxSize: { label: 'Hitbox (px)', min: 20, max: 40, step: 2 },
+  startBombs: { label: 'Starting bombs', min: 1, max: MAX_BOMBS, step: 1 },
+  startRange: { label: 'Starting range', min: 1, max: MAX_BLAST_RADIUS, step: 1 },
+  startSpeed: { label: 'Starting speed', min: 2, max: MAX_SPEED, step: 0.5 },
+};
+export const RULES_STORAGE_KEY = 'bunny-bomber.rules.v1';
 
 export const EMOJIS = {
   PLAYER: '🐰',
+  FOX: '🦊',
+  PANDA: '🐼',
+  FROG: '🐸',
   BOMB: '💣',
   FIRE: '🔥',
   SOFT_WALL: '🧱',
   HARD_WALL: '🗿',
   ENEMY: '👻',
+  CHASER: '👹',
+  BOMB_AVOIDER: '🦇',
+  GHOST: '👁️',
+  SPEEDY: '🐍',
+  EXTRA_BOMB: '🧨',
+  FIRE_RANGE: '🌶️',
+  SPEED: '👟',
+  KICK: '🦶',
+  REMOTE: '📡',
+  PIERCE: '☄️',
+  SKULL: '💀',
+  MINE: '🪤',
+  GLOVE: '🧤',
+  TOUGH_WALL: '🪨',
+  ICE: '🧊',
+  TELEPORTER: '🌀',
+  EXIT: '🚪',
+  EXIT_OPEN: '🕳️',
   GRASS: '🟩', // Though we might just use color for grass to reduce noise
 };
 
@@ -23,4 +139,141 @@ export const COLORS = {
   GRASS_ALT: '#246b28', // Slightly darker green for checkerboard
   HARD_WALL_BG: '#333333',
   SOFT_WALL_BG: '#D84315',
-};
\ No newline at end of file
+  POWER_UP_BG: '#FBC02D',
+  SKULL_BG: '#6A1B9A',
+  ICE: '#B3E5FC',
+  CONVEYOR: '#424242',
+  TELEPORTER: '#7E57C2',
+};
+
+// Glyphs the emoji backend draws on the special floor tiles
+export const TILE_EMOJIS: Partial<Record<TileType, string>> = {
+  [TileType.ToughWall]: EMOJIS.TOUGH_WALL,
+  [TileType.ConveyorUp]: '⏫',
+  [TileType.ConveyorDown]: '⏬',
+  [TileType.ConveyorLeft]: '⏪',
+  [TileType.ConveyorRight]: '⏩',
+  [TileType.Ice]: EMOJIS.ICE,
+  [TileType.ArrowUp]: '⬆️',
+  [TileType.ArrowDown]: '⬇️',
+  [TileType.ArrowLeft]: '⬅️',
+  [TileType.ArrowRight]: '➡️',
+  [TileType.Teleporter]: EMOJIS.TELEPORTER,
+};
+
+export const THEME_COLORS: Record<LevelTheme, { GRASS: string; GRASS_ALT: string; HARD_WALL_BG: string; SOFT_WALL_BG: string }> = {
+  [LevelTheme.Meadow]: { GRASS: COLORS.GRASS, GRASS_ALT: COLORS.GRASS_ALT, HARD_WALL_BG: COLORS.HARD_WALL_BG, SOFT_WALL_BG: COLORS.SOFT_WALL_BG },
+  [LevelTheme.Desert]: { GRASS: '#C8A165', GRASS_ALT: '#BA9257', HARD_WALL_BG: '#6D4C41', SOFT_WALL_BG: '#E65100' },
+  [LevelTheme.Snow]: { GRASS: '#B0BEC5', GRASS_ALT: '#A2B1B8', HARD_WALL_BG: '#37474F', SOFT_WALL_BG: '#4FC3F7' },
+  [LevelTheme.Night]: { GRASS: '#1B2A41', GRASS_ALT: '#162337', HARD_WALL_BG: '#0D1321', SOFT_WALL_BG: '#5C3D99' },
+};
+
+// Accessible palettes replace the theme's colours outright. MARK draws the
+// shapes that tell the wall kinds apart; DANGER hatches the tiles a bomb
+// will hit.
+export const PALETTE_COLORS: Record<Palette, { GRASS: string; GRASS_ALT: string; HARD_WALL_BG: string; SOFT_WALL_BG: string; MARK: string; DANGER: string } | null> = {
+  [Palette.Standard]: null,
+  [Palette.HighContrast]: { GRASS: '#000000', GRASS_ALT: '#1A1A1A', HARD_WALL_BG: '#FFFFFF', SOFT_WALL_BG: '#FFD600', MARK: '#000000', DANGER: '#FF40FF' },
+  [Palette.Colorblind]: { GRASS: '#56606B', GRASS_ALT: '#4E5761', HARD_WALL_BG: '#1C2541', SOFT_WALL_BG: '#E69F00', MARK: '#FFFFFF', DANGER: '#F0E442' },
+};
+export const DANGER_HATCH = 'rgba(255, 255, 255, 0.6)'; // Danger-zone colour under the standard palette
+
+export const ENEMY_ARCHETYPES: Record<EnemyKind, { emoji: string; speed: number; points: number }> = {
+  [EnemyKind.Wanderer]: { emoji: EMOJIS.ENEMY, speed: 2, points: 100 },
+  [EnemyKind.Chaser]: { emoji: EMOJIS.CHASER, speed: 2, points: 400 },
+  [EnemyKind.BombAvoider]: { emoji: EMOJIS.BOMB_AVOIDER, speed: 2.4, points: 300 },
+  [EnemyKind.Ghost]: { emoji: EMOJIS.GHOST, speed: 1.5, points: 500 },
+  [EnemyKind.Speedy]: { emoji: EMOJIS.SPEEDY, speed: 4, points: 200 },
+};
+
+export const CHASE_RANGE = 10; // Path length, in tiles, a chaser will follow
+export const WANDER_TURN_CHANCE = 0.3; // Chance to turn at a junction
+
+export const POWER_UP_EMOJIS: Record<PowerUpType, string> = {
+  [PowerUpType.ExtraBomb]: EMOJIS.EXTRA_BOMB,
+  [PowerUpType.FireRange]: EMOJIS.FIRE_RANGE,
+  [PowerUpType.Speed]: EMOJIS.SPEED,
+  [PowerUpType.Kick]: EMOJIS.KICK,
+  [PowerUpType.Remote]: EMOJIS.REMOTE,
+  [PowerUpType.Pierce]: EMOJIS.PIERCE,
+  [PowerUpType.Skull]: EMOJIS.SKULL,
+  [PowerUpType.Mine]: EMOJIS.MINE,
+  [PowerUpType.Throw]: EMOJIS.GLOVE,
+};
+// Sprite per bomber slot; slot 0 is always the first human
+export const BOMBER_EMOJIS = [EMOJIS.PLAYER, EMOJIS.FOX, EMOJIS.PANDA, EMOJIS.FROG];
+export const BOMBER_NAMES = ['Bunny', 'Fox', 'Panda', 'Frog']; // Spoken in place of the emoji
+export const MAX_BOMBERS = 4;
+
+export const CPU_PROFILES: Record<CpuDifficulty, { thinkMs: number; bombChance: number; collects: boolean; huntRange: number }> = {
+  [CpuDifficulty.Easy]: { thinkMs: 600, bombChance: 0.3, collects: false, huntRange: 6 },
+  [CpuDifficulty.Normal]: { thinkMs: 250, bombChance: 0.7, collects: true, huntRange: 12 },
+  [CpuDifficulty.Hard]: { thinkMs: 0, bombChance: 1, collects: true, huntRange: Infinity },
+};
+export const CPU_ESCAPE_DEPTH = 6; // Tiles a bot will run to get clear of its own bomb
+
+export const ROUND_TIME_MS = 120000;
+export const SUDDEN_DEATH_INTERVAL_MS = 200; // Between falling walls
+
+// Background loops, one 8th-note step per entry: semitones above the root
+// frequency, null for a rest. Bass notes sound an octave lower.
+export const MUSIC_TRACKS: Record<LevelTheme, { bpm: number; root: number; wave: OscillatorType; lead: (number | null)[]; bass: (number | null)[] }> = {
+  [LevelTheme.Meadow]: {
+    bpm: 128, root: 261.63, wave: 'square',
+    lead: [0, 4, 7, 4, 9, 7, 4, 2, 0, 2, 4, 7, 5, 4, 2, null],
+    bass: [-12, null, -5, null, -12, null, -5, null, -7, null, -3, null, -5, null, -8, null],
+  },
+  [LevelTheme.Desert]: {
+    bpm: 104, root: 293.66, wave: 'triangle',
+    lead: [0, 1, 4, 5, 7, null, 5, 4, 1, 0, null, 1, 4, 1, 0, null],
+    bass: [-12, null, -12, -11, -12, null, -5, null, -12, null, -12, -11, -7, null, -11, null],
+  },
+  [LevelTheme.Snow]: {
+    bpm: 92, root: 329.63, wave: 'sine',
+    lead: [7, null, 4, null, 2, null, 0, null, 4, null, 7, null, 9, null, 7, null],
+    bass: [-12, null, null, null, -8, null, null, null, -7, null, null, null, -5, null, null, null],
+  },
+  [LevelTheme.Night]: {
+    bpm: 116, root: 220, wave: 'sawtooth',
+    lead: [0, 3, 7, 3, 10, 7, 3, 0, 0, 3, 8, 7, 3, 2, 0, null],
+    bass: [-12, -12, null, -12, -9, null, -9, null, -4, -4, null, -4, -5, null, -5, null],
+  },
+};
+
+// Default keyboard layout per bomber slot; gamepad N also drives slot N
+export const KEY_BINDINGS: KeyBinding[] = [
+  { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight', bomb: 'Space', detonate: 'KeyX', pause: 'Escape' },
+  { up: 'KeyW', down: 'KeyS', left: 'KeyA', right: 'KeyD', bomb: 'KeyQ', detonate: 'KeyE', pause: 'KeyR' },
+  { up: 'KeyI', down: 'KeyK', left: 'KeyJ', right: 'KeyL', bomb: 'KeyU', detonate: 'KeyO', pause: 'KeyP' },
+  { up: 'Numpad8', down: 'Numpad5', left: 'Numpad4', right: 'Numpad6', bomb: 'Numpad0', detonate: 'NumpadDecimal', pause: 'NumpadAdd' },
+];
+export const BINDINGS_STORAGE_KEY = 'bunny-bomber.bindings.v1';
+export const GAMEPAD_DEADZONE = 0.25; // Stick magnitude ignored as drift
+export const SWIPE_MIN_PX = 24; // Finger travel before a touch counts as a swipe
+export const DPAD_DEADZONE_PX = 10; // Radius at the D-pad centre that means no direction
+
+export const AUDIO_STORAGE_KEY = 'bunny-bomber.audio.v1';
+export const GRAPHICS_STORAGE_KEY = 'bunny-bomber.graphics.v1';
+export const SAVE_STORAGE_KEY = 'bunny-bomber.save';
+export const HIGH_SCORES_STORAGE_KEY = 'bunny-bomber.highscores';
+export const HIGH_SCORE_SLOTS = 10;
+export const HIGH_SCORE_NAME_LENGTH = 12;
+
+// Daily challenge: one generated stage a day, under one of these presets
+export const DAILY_PRESETS = [RulesPreset.Easy, RulesPreset.Classic, RulesPreset.Classic, RulesPreset.Chaos] as const;
+export const DAILY_TIME_LIMIT_MS = 180000;
+export const DAILY_ENEMY_POOL = [EnemyKind.Wanderer, EnemyKind.Wanderer, EnemyKind.Chaser, EnemyKind.BombAvoider, EnemyKind.Ghost, EnemyKind.Speedy];
+export const DAILY_HISTORY_STORAGE_KEY = 'bunny-bomber.daily';
+export const DAILY_HISTORY_DAYS = 366; // Oldest days are dropped beyond this
+
+// Online play
+export const NET_PORT = 8787;
+export const NET_MAX_PAYLOAD = 16 * 1024; // Bytes per client message; the largest, creating a room, is well under this
+export const NET_PROTOCOL_VERSION = 3; // Sent as the WebSocket subprotocol `bunny-bomber.<n>`
+export const ROOM_CODE_LENGTH = 4;
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O to mix up with digits
+export const SNAPSHOT_INTERVAL_TICKS = 3; // Server sends the world every N ticks
+export const INPUT_BUFFER_TICKS = 8; // Inputs queued per player on the server before old ones are dropped
+export const INTERPOLATION_DELAY_MS = 100; // Remote bombers are drawn this far in the past
+export const REJOIN_GRACE_MS = 30000; // A dropped player keeps their seat this long
+export const ONLINE_STORAGE_KEY = 'bunny-bomber.online.v1';
@@ -0,0 +1,139 @@
+import { TileType, Enemy, EnemyKind, GameState, GridPos, Point } from '../types';
+import { CHASE_RANGE, WANDER_TURN_CHANCE } from '../constants';
+import { nextFloat, pick } from './rng';
+import { bombAt, canEnter, getGridPos, inBounds, isBreakable, stopsFlames, teleportPartner } from './grid';
+
+export const DIRECTIONS: Point[] = [{x:0, y:-1}, {x:0, y:1}, {x:-1, y:0}, {x:1, y:0}];
+
+const STOP: Point = { x: 0, y: 0 };
+
+// Whether the tile at (r, c) may be stepped onto heading in `dir`.
+export type Passable = (r: number, c: number, dir: Point) => boolean;
+
+// Tiles an enemy of the given kind may walk into. Ghosts drift through
+// breakable walls; nothing walks through hard walls or bombs, though mines
+// are buried and get walked onto.
+export const passableFor = (state: GameState, kind: EnemyKind): Passable => (r, c, dir) => {
+  if (!inBounds(state.map, r, c)) return false;
+  const tile = state.map[r][c];
+  if (!(kind === EnemyKind.Ghost && isBreakable(tile)) && !canEnter(tile, dir)) return false;
+  const bomb = bombAt(state, r, c);
+  return !bomb || bomb.mine;
+};
+
+// Breadth-first search over the tile grid. Returns the nearest tile accepted
+// by `isGoal` together with the direction of the first step on a shortest path
+// to it, or null when none is reachable within `maxDepth` steps. Stepping onto
+// a teleporter counts as arriving at its partner.
+export const findPath = (
+  state: GameState,
+  from: GridPos,
+  isGoal: (r: number, c: number) => boolean,
+  passable: Passable,
+  maxDepth = Infinity
+): { step: Point; goal: GridPos } | null => {
+  const rows = state.map.length;
+  const cols = state.map[0].length;
+  const firstStep = new Map<number, Point>();
+  const seen = new Set<number>([from.r * cols + from.c]);
+  let frontier = [from];
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: GridPos[] = [];
+    for (const pos of frontier) {
+      for (const d of DIRECTIONS) {
+        const nr = pos.r + d.y, nc = pos.c + d.x;
+        if (nr < 0 || nr >= rows || nc < 0 || nc >= cols || !passable(nr, nc, d)) continue;
+        const { r, c } = state.map[nr][nc] === TileType.Teleporter ? teleportPartner(state.map, nr, nc) ?? { r: nr, c: nc } : { r: nr, c: nc };
+        const key = r * cols + c;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const step = depth === 1 ? d : firstStep.get(pos.r * cols + pos.c)!;
+        if (isGoal(r, c)) return { step: { ...step }, goal: { r, c } };
+        firstStep.set(key, step);
+        next.push({ r, c });
+      }
+    }
+    frontier = next;
+  }
+  return null;
+};
+
+export const firstStepTowards = (
+  state: GameState,
+  from: GridPos,
+  isGoal: (r: number, c: number) => boolean,
+  passable: Passable,
+  maxDepth = Infinity
+): Point | null => findPath(state, from, isGoal, passable, maxDepth)?.step ?? null;
+
+// Every tile that a live flame covers or that a ticking bomb will reach. A
+// mine only goes off when stepped on, so just its own tile counts, and a
+// thrown bomb goes off where it lands.
+export const dangerTiles = (state: GameState): boolean[][] => {
+  const danger = state.map.map(row => row.map(() => false));
+  state.explosions.forEach(exp => exp.particles.forEach(p => { danger[p.y][p.x] = true; }));
+  state.bombs.forEach(bomb => {
+    const center = bomb.flight ? getGridPos(bomb.flight.x, bomb.flight.y) : getGridPos(bomb.x, bomb.y);
+    danger[center.r][center.c] = true;
+    if (bomb.mine) return;
+    DIRECTIONS.forEach(d => {
+      for (let i = 1; i <= bomb.range; i++) {
+        const r = center.r + d.y * i, c = center.c + d.x * i;
+        if (!inBounds(state.map, r, c) || state.map[r][c] === TileType.HardWall) break;
+        danger[r][c] = true;
+        if (stopsFlames(state.map[r][c], bomb.pierce)) break;
+        if (bombAt(state, r, c)) break;
+      }
+    });
+  });
+  return danger;
+};
+
+const isReverse = (a: Point, b: Point) => a.x === -b.x && a.y === -b.y && (a.x !== 0 || a.y !== 0);
+
+// Keeps heading straight, turning at junctions now and then and only doubling
+// back at dead ends.
+const wander = (state: GameState, enemy: Enemy, pos: GridPos, passable: Passable, turnChance: number): Point => {
+  const options = DIRECTIONS.filter(d => passable(pos.r + d.y, pos.c + d.x, d));
+  if (options.length === 0) return STOP;
+  const forward = options.find(d => d.x === enemy.direction.x && d.y === enemy.direction.y);
+  if (forward && (turnChance === 0 || nextFloat(state.rng) >= turnChance)) return { ...forward };
+  const onward = options.filter(d => !isReverse(d, enemy.direction));
+  return { ...pick(state.rng, onward.length > 0 ? onward : options) };
+};
+
+// Heads for the nearest bomber, human or CPU.
+const chase = (state: GameState, enemy: Enemy, pos: GridPos, passable: Passable): Point => {
+  const targets = state.players.filter(p => p.alive).map(p => getGridPos(p.x, p.y));
+  if (targets.length > 0) {
+    const isTarget = (r: number, c: number) => targets.some(t => t.r === r && t.c === c);
+    const step = firstStepTowards(state, pos, isTarget, passable, CHASE_RANGE);
+    if (step) return step;
+  }
+  return wander(state, enemy, pos, passable, WANDER_TURN_CHANCE);
+};
+
+const evade = (state: GameState, enemy: Enemy, pos: GridPos, passable: Passable): Point => {
+  const danger = dangerTiles(state);
+  if (danger[pos.r][pos.c]) {
+    return firstStepTowards(state, pos, (r, c) => !danger[r][c], passable) ?? wander(state, enemy, pos, passable, 0);
+  }
+  return wander(state, enemy, pos, (r, c, d) => passable(r, c, d) && !danger[r][c], WANDER_TURN_CHANCE);
+};
+
+// Picks the direction an enemy heads in from the centre of tile `pos`.
+export const decideDirection = (state: GameState, enemy: Enemy, pos: GridPos): Point => {
+  const passable = passableFor(state, enemy.kind);
+  switch (enemy.kind) {
+    case EnemyKind.Chaser:
+    case EnemyKind.Ghost:
+      return chase(state, enemy, pos, passable);
+    case EnemyKind.BombAvoider:
+      return evade(state, enemy, pos, passable);
+    case EnemyKind.Speedy:
+      return wander(state, enemy, pos, passable, 0);
+    case EnemyKind.Wanderer:
+    default:
+      return wander(state, enemy, pos, passable, WANDER_TURN_CHANCE);
+  }
+};
@@ -0,0 +1,168 @@
+import { TileType, CurseType, GameState, GridPos, Player, PlayerInput, PowerUpType } from '../types';
+import { TILE_SIZE, CPU_PROFILES, CPU_ESCAPE_DEPTH } from '../constants';
+import { nextFloat, nextInt } from './rng';
+import { bombAt, canEnter, getGridPos, inBounds, isBreakable, stopsFlames, tileCenter } from './grid';
+import { DIRECTIONS, Passable, dangerTiles, findPath } from './ai';
+
+const idle = (): PlayerInput => ({ up: false, down: false, left: false, right: false, bomb: false, detonate: false });
+
+// Open floor a bomber can walk onto. Bots keep off mines, their own too.
+const walkable = (state: GameState): Passable => (r, c, dir) => {
+  return inBounds(state.map, r, c) && canEnter(state.map[r][c], dir) && !bombAt(state, r, c);
+};
+
+// Tiles the flames of a bomb dropped by `bot` at `pos` would cover.
+const blastCross = (state: GameState, bot: Player, pos: GridPos): GridPos[] => {
+  const cross = [pos];
+  DIRECTIONS.forEach(d => {
+    for (let i = 1; i <= bot.blastRadius; i++) {
+      const r = pos.r + d.y * i, c = pos.c + d.x * i;
+      if (!inBounds(state.map, r, c) || state.map[r][c] === TileType.HardWall) break;
+      cross.push({ r, c });
+      if (stopsFlames(state.map[r][c], bot.pierce)) break;
+    }
+  });
+  return cross;
+};
+
+const isOpponent = (bot: Player, other: Player) => other !== bot && other.alive;
+
+const wantsToBomb = (state: GameState, bot: Player, cross: GridPos[]) => {
+  const profile = CPU_PROFILES[bot.bot!.difficulty];
+  const covers = (x: number, y: number) => {
+    const pos = getGridPos(x, y);
+    return cross.some(t => t.r === pos.r && t.c === pos.c);
+  };
+  if (state.players.some(p => isOpponent(bot, p) && covers(p.x, p.y))) {
+    return nextFloat(state.rng) < profile.bombChance;
+  }
+  // Dig through walls, but not through loot it would rather pick up
+  const hitsWall = cross.some(t => isBreakable(state.map[t.r][t.c]));
+  const burnsLoot = profile.collects && state.powerUps.some(p => !p.hidden && covers(p.x, p.y));
+  return hitsWall && !burnsLoot;
+};
+
+// Picks the next tile to head for, and whether to drop a bomb first. Bombs
+// are only dropped when a safe tile is reachable before they go off.
+const think = (state: GameState, bot: Player, pos: GridPos): boolean => {
+  const brain = bot.bot!;
+  const profile = CPU_PROFILES[brain.difficulty];
+  const danger = dangerTiles(state);
+  const walk = walkable(state);
+  const safe: Passable = (r, c, dir) => walk(r, c, dir) && !danger[r][c];
+
+  if (danger[pos.r][pos.c]) {
+    brain.goal = findPath(state, pos, (r, c) => !danger[r][c], walk)?.goal ?? null;
+    return false;
+  }
+
+  const canBomb = (bot.bombCount < bot.maxBombs || bot.mines > 0) && bot.curse !== CurseType.NoBombs && !bombAt(state, pos.r, pos.c);
+  if (canBomb) {
+    const cross = blastCross(state, bot, pos);
+    const inBlast = (r: number, c: number) => danger[r][c] || cross.some(t => t.r === r && t.c === c);
+    const escape = findPath(state, pos, (r, c) => !inBlast(r, c), safe, CPU_ESCAPE_DEPTH);
+    if (escape && wantsToBomb(state, bot, cross)) {
+      brain.goal = escape.goal;
+      return true;
+    }
+  }
+
+  const tileOf = (x: number, y: number) => getGridPos(x, y);
+  const at = (targets: GridPos[]) => (r: number, c: number) => targets.some(t => t.r === r && t.c === c);
+
+  if (profile.collects) {
+    const loot = state.powerUps.filter(p => !p.hidden && p.type !== PowerUpType.Skull).map(p => tileOf(p.x, p.y));
+    const found = findPath(state, pos, at(loot), safe, 10);
+    if (found) {
+      brain.goal = found.goal;
+      return false;
+    }
+  }
+
+  // Go after the humans first, then whoever else is left standing
+  const opponents = state.players.filter(p => isOpponent(bot, p));
+  const humans = opponents.filter(p => !p.bot);
+  const prey = (humans.length > 0 ? humans : opponents).map(p => tileOf(p.x, p.y));
+  const hunt = findPath(state, pos, at(prey), safe, profile.huntRange);
+  if (hunt) {
+    brain.goal = hunt.goal;
+    return false;
+  }
+
+  const nextToWall = (r: number, c: number) => DIRECTIONS.some(d => {
+    const tile = state.map[r + d.y]?.[c + d.x];
+    return tile !== undefined && isBreakable(tile);
+  });
+  const dig = findPath(state, pos, nextToWall, safe);
+  if (dig) {
+    brain.goal = dig.goal;
+    return false;
+  }
+
+  const options = DIRECTIONS.filter(d => safe(pos.r + d.y, pos.c + d.x, d));
+  if (options.length === 0) {
+    brain.goal = null;
+  } else {
+    const d = options[nextInt(state.rng, options.length)];
+    brain.goal = { r: pos.r + d.y, c: pos.c + d.x };
+  }
+  return false;
+};
+
+// Turns a move onto the adjacent tile `next` into directional input. The bot
+// lines up with the tile centre on the cross axis first so its hitbox clears
+// the corners of the corridor.
+const steer = (bot: Player, next: GridPos, input: PlayerInput) => {
+  const target = tileCenter(next.r, next.c);
+  const slack = (TILE_SIZE - bot.width) / 2;
+  const dx = target.x - bot.x;
+  const dy = target.y - bot.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    if (Math.abs(dy) > slack) input[dy < 0 ? 'up' : 'down'] = true;
+    else input[dx < 0 ? 'left' : 'right'] = true;
+  } else {
+    if (Math.abs(dx) > slack) input[dx < 0 ? 'left' : 'right'] = true;
+    else input[dy < 0 ? 'up' : 'down'] = true;
+  }
+};
+
+// Produces this step's input for a CPU bomber. Goals are reconsidered on a
+// timer that sets the difficulty's reaction time; in between the bot keeps
+// walking towards the goal it last picked.
+export const botInput = (state: GameState, bot: Player, dt: number): PlayerInput => {
+  const brain = bot.bot!;
+  const input = idle();
+  const pos = getGridPos(bot.x, bot.y);
+
+  brain.thinkTimer -= dt;
+  if (brain.thinkTimer <= 0) {
+    brain.thinkTimer = CPU_PROFILES[brain.difficulty].thinkMs;
+    input.bomb = think(state, bot, pos);
+  }
+
+  const danger = dangerTiles(state);
+  if (bot.remote && !danger[pos.r][pos.c]) {
+    input.detonate = state.bombs.some(b => b.remote && b.ownerId === bot.id);
+  }
+
+  // Stand still while dropping a bomb so it lands where the escape was planned
+  if (input.bomb) return input;
+
+  const goal = brain.goal;
+  if (goal && (goal.r !== pos.r || goal.c !== pos.c)) {
+    // Once out of harm's way, never walk back into it
+    const walk = walkable(state);
+    const passable: Passable = danger[pos.r][pos.c] ? walk : (r, c, dir) => walk(r, c, dir) && !danger[r][c];
+    const path = findPath(state, pos, (r, c) => r === goal.r && c === goal.c, passable);
+    if (path) steer(bot, { r: pos.r + path.step.y, c: pos.c + path.step.x }, input);
+    else brain.goal = null;
+  } else {
+    brain.goal = null;
+  }
+
+  if (bot.curse === CurseType.Reverse) {
+    [input.up, input.down] = [input.down, input.up];
+    [input.left, input.right] = [input.right, input.left];
+  }
+  return input;
+};
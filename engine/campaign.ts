@@ -0,0 +1,72 @@
+import { CampaignState, EnemyKind, GameOptions, GameState, GameStatus, LevelDefinition, MatchRules } from '../types';
+import { CAMPAIGN_LIVES, CLASSIC_RULES, POWER_UP_DROP_TABLE } from '../constants';
+import { createGame, getLoadout, humanPlayer, startingLoadout } from './simulation';
+
+export const startCampaign = (seed: number, levels: LevelDefinition[], rules: MatchRules = CLASSIC_RULES): CampaignState => ({
+  seed,
+  levels,
+  stageIndex: 0,
+  lives: CAMPAIGN_LIVES,
+  score: 0,
+  loadout: startingLoadout(rules),
+  rules
+});
+
+export const currentLevel = (campaign: CampaignState) => campaign.levels[campaign.stageIndex];
+
+// Each stage gets its own seed so replaying a stage after losing a life
+// yields the same layout.
+export const stageSeed = (campaign: CampaignState) => (campaign.seed + Math.imul(campaign.stageIndex + 1, 0x9E3779B1)) >>> 0;
+
+// Stages are tuned for the Classic rules; other rules thin out or fill in
+// each one by the same margin. Hand-built layouts keep their own walls and
+// enemies.
+const stageRoster = (enemies: EnemyKind[], rules: MatchRules): EnemyKind[] => {
+  const extra = rules.enemyCount - CLASSIC_RULES.enemyCount;
+  if (extra >= 0) return [...enemies, ...Array<EnemyKind>(extra).fill(EnemyKind.Wanderer)];
+  return enemies.slice(0, Math.max(1, enemies.length + extra));
+};
+
+export const stageOptions = (campaign: CampaignState): Partial<GameOptions> => {
+  const level = currentLevel(campaign);
+  const { rules } = campaign;
+  return {
+    rows: level.rows,
+    cols: level.cols,
+    softWallDensity: Math.min(1, level.softWallDensity * rules.softWallDensity / CLASSIC_RULES.softWallDensity),
+    layout: level.layout ?? null,
+    enemies: stageRoster(level.enemies, rules),
+    rivals: level.rivals ?? [],
+    timeLimitMs: level.timeLimitMs,
+    exit: true,
+    dropTable: level.dropTable ?? POWER_UP_DROP_TABLE,
+    loadout: campaign.loadout,
+    lives: campaign.lives,
+    score: campaign.score,
+    rules
+  };
+};
+
+export const createStage = (campaign: CampaignState): GameState => createGame(stageSeed(campaign), stageOptions(campaign));
+
+// Folds the outcome of a finished stage back into the campaign. Clearing the
+// last stage flips the stage status to CampaignComplete. Lives lost and points
+// scored during the stage carry over either way.
+export const resolveStage = (campaign: CampaignState, state: GameState): CampaignState => {
+  const player = humanPlayer(state);
+  if (state.status === GameStatus.StageClear) {
+    const next = { ...campaign, lives: player.lives, score: player.score, loadout: getLoadout(player) };
+    if (campaign.stageIndex >= campaign.levels.length - 1) {
+      state.status = GameStatus.CampaignComplete;
+      return next;
+    }
+    return { ...next, stageIndex: campaign.stageIndex + 1 };
+  }
+  if (state.status === GameStatus.Lost) {
+    // Out of lives, or out of time with lives to spare and the stage to retry
+    return { ...campaign, lives: player.lives, score: player.score, loadout: startingLoadout(campaign.rules) };
+  }
+  return campaign;
+};
+
+export const isGameOver = (campaign: CampaignState) => campaign.lives <= 0;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DailyResult, GameStatus } from '../types';
+import { RULE_PRESETS, TICK_MS } from '../constants';
+import { createStage, startCampaign } from './campaign';
+import { NO_INPUT, PLAYER_ID, step } from './simulation';
+import {
+  currentStreak,
+  dailyBests,
+  dailyChallenge,
+  dailyDate,
+  dailyResult,
+  dailySeed,
+  formatClearTime,
+  recordResult,
+  shareText,
+  startTally,
+  tallyTick
+} from './daily';
+
+const result = (date: string, overrides: Partial<DailyResult> = {}): DailyResult => ({
+  date, seedHash: '00000000', cleared: true, timeMs: 60000, bombs: 10, deaths: 0, ...overrides
+});
+
+describe('dailyChallenge', () => {
+  it('follows the local calendar day', () => {
+    expect(dailyDate(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    expect(dailyDate(new Date(2026, 0, 6, 0, 1))).toBe('2026-01-06');
+  });
+
+  it('builds the same stage for everyone on a day and a new one the next', () => {
+    const today = dailyChallenge('2026-10-19');
+    expect(dailyChallenge('2026-10-19')).toEqual(today);
+    expect(dailySeed('2026-10-20')).not.toBe(today.seed);
+    expect(Object.values(RULE_PRESETS)).toContainEqual(today.rules);
+
+    const stage = (date: string) => {
+      const { seed, level, rules } = dailyChallenge(date);
+      return createStage(startCampaign(seed, [level], rules));
+    };
+    const first = stage('2026-10-19');
+    expect(first.map).toEqual(stage('2026-10-19').map);
+    expect(first.enemies).toEqual(stage('2026-10-19').enemies);
+    expect(first.map).not.toEqual(stage('2026-10-20').map);
+  });
+});
+
+describe('tallyTick', () => {
+  it('counts the bombs laid and lives lost', () => {
+    const { seed, level, rules } = dailyChallenge('2026-10-19');
+    const state = createStage(startCampaign(seed, [level], rules));
+    state.enemies = [];
+    const tally = startTally();
+    step(state, { [PLAYER_ID]: { ...NO_INPUT, bomb: true } }, TICK_MS);
+    tallyTick(tally, state);
+    state.bombs[0].timer = TICK_MS;
+    step(state, {}, TICK_MS);
+    tallyTick(tally, state);
+    expect(tally).toEqual({ timeMs: 2 * TICK_MS, bombs: 1, deaths: 1 });
+    expect(state.status).not.toBe(GameStatus.CampaignComplete);
+  });
+});
+
+describe('daily history', () => {
+  it('keeps the best run of each day', () => {
+    let history = recordResult([], result('2026-10-19', { cleared: false, timeMs: 90000 }));
+    history = recordResult(history, result('2026-10-19', { cleared: false, timeMs: 20000 }));
+    expect(history).toEqual([result('2026-10-19', { cleared: false, timeMs: 90000 })]);
+    history = recordResult(history, result('2026-10-19', { timeMs: 80000 }));
+    history = recordResult(history, result('2026-10-19', { timeMs: 85000 }));
+    history = recordResult(history, result('2026-10-18'));
+    expect(history).toEqual([result('2026-10-18'), result('2026-10-19', { timeMs: 80000 })]);
+  });
+
+  it('counts streaks across month ends and keeps yesterday alive today', () => {
+    const history = ['2026-09-29', '2026-09-30', '2026-10-01', '2026-10-03', '2026-10-04'].map(date => result(date));
+    expect(currentStreak(history, '2026-10-04')).toBe(2);
+    expect(currentStreak(history, '2026-10-05')).toBe(2);
+    expect(currentStreak(history, '2026-10-06')).toBe(0);
+    expect(currentStreak([...history, result('2026-10-05', { cleared: false })], '2026-10-05')).toBe(2);
+    expect(dailyBests(history).longestStreak).toBe(3);
+  });
+
+  it('finds the personal bests among clears only', () => {
+    const history = [result('2026-10-01', { timeMs: 50000, bombs: 14 }), result('2026-10-02', { timeMs: 70000, bombs: 6 }),
+      result('2026-10-03', { cleared: false, timeMs: 1000, bombs: 1 })];
+    expect(dailyBests(history)).toEqual({ clears: 2, fastestMs: 50000, fewestBombs: 6, longestStreak: 2 });
+    expect(dailyBests([])).toEqual({ clears: 0, fastestMs: null, fewestBombs: null, longestStreak: 0 });
+  });
+});
+
+describe('shareText', () => {
+  it('lists the date, seed hash and stats', () => {
+    const challenge = dailyChallenge('2026-10-19');
+    const run = dailyResult(challenge, { timeMs: 83450, bombs: 12, deaths: 1 }, true);
+    expect(run.seedHash).toMatch(/^[0-9a-f]{8}$/);
+    expect(shareText(run, 3)).toBe([
+      `Bunny Bomber Daily 2026-10-19 #${run.seedHash}`,
+      '✅ Cleared in 1:23.5',
+      '💣 12 bombs · 💀 1 death',
+      '🔥 3-day streak'
+    ].join('\n'));
+    expect(shareText({ ...run, cleared: false }, 0).split('\n')).toHaveLength(3);
+    expect(formatClearTime(59999)).toBe('1:00.0');
+  });
+});
@@ -0,0 +1,134 @@
+import { DailyChallenge, DailyResult, DailyTally, GameState, LevelTheme } from '../types';
+import {
+  CLASSIC_RULES,
+  DAILY_ENEMY_POOL,
+  DAILY_HISTORY_DAYS,
+  DAILY_PRESETS,
+  DAILY_TIME_LIMIT_MS,
+  GRID_COLS,
+  GRID_ROWS,
+  RULE_PRESETS,
+  TICK_MS
+} from '../constants';
+import { createRng, nextInt, pick } from './rng';
+import { humanPlayer } from './simulation';
+
+const DAY_MS = 86400000;
+const THEMES = [LevelTheme.Meadow, LevelTheme.Desert, LevelTheme.Snow, LevelTheme.Night];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The player's own calendar day, so the challenge turns over at their midnight.
+export const dailyDate = (now: Date) => `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+const dayNumber = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+// FNV-1a over the date, so every copy of the game agrees with no server.
+export const dailySeed = (date: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < date.length; i++) hash = Math.imul(hash ^ date.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+};
+
+export const seedHash = (seed: number) => seed.toString(16).padStart(8, '0');
+
+export const dailyChallenge = (date: string): DailyChallenge => {
+  const seed = dailySeed(date);
+  const rng = createRng(seed);
+  const rules = RULE_PRESETS[pick(rng, DAILY_PRESETS)];
+  const theme = THEMES[nextInt(rng, THEMES.length)];
+  const enemies = Array.from({ length: CLASSIC_RULES.enemyCount }, () => pick(rng, DAILY_ENEMY_POOL));
+  return {
+    date,
+    seed,
+    rules,
+    level: {
+      id: `daily-${date}`,
+      name: `Daily ${date}`,
+      rows: GRID_ROWS,
+      cols: GRID_COLS,
+      softWallDensity: CLASSIC_RULES.softWallDensity,
+      enemies,
+      timeLimitMs: DAILY_TIME_LIMIT_MS,
+      theme
+    }
+  };
+};
+
+export const startTally = (): DailyTally => ({ timeMs: 0, bombs: 0, deaths: 0 });
+
+// Counts the human's bombs and deaths from a tick's events.
+export const tallyTick = (tally: DailyTally, state: GameState) => {
+  const { id } = humanPlayer(state);
+  tally.timeMs = state.tick * TICK_MS;
+  state.events.forEach(event => {
+    if (event.type === 'bombPlaced' && event.ownerId === id) tally.bombs++;
+    if (event.type === 'playerKilled' && event.playerId === id) tally.deaths++;
+  });
+};
+
+export const dailyResult = (challenge: DailyChallenge, tally: DailyTally, cleared: boolean): DailyResult => ({
+  date: challenge.date,
+  seedHash: seedHash(challenge.seed),
+  cleared,
+  ...tally
+});
+
+// A clear beats a failed run, then the faster clear, then the one with fewer
+// deaths and fewer bombs. Between two failed runs the first stands.
+const isBetter = (a: DailyResult, b: DailyResult) =>
+  a.cleared !== b.cleared ? a.cleared : a.cleared && (a.timeMs - b.timeMs || a.deaths - b.deaths || a.bombs - b.bombs) < 0;
+
+// Keeps the best run of each day, oldest first.
+export const recordResult = (history: DailyResult[], result: DailyResult): DailyResult[] => {
+  const previous = history.find(r => r.date === result.date);
+  if (previous && !isBetter(result, previous)) return history;
+  return [...history.filter(r => r.date !== result.date), result]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-DAILY_HISTORY_DAYS);
+};
+
+// Days cleared in a row up to today. A streak stays alive through today
+// until the day is over.
+export const currentStreak = (history: DailyResult[], today: string) => {
+  const cleared = new Set(history.filter(r => r.cleared).map(r => dayNumber(r.date)));
+  let day = dayNumber(today);
+  if (!cleared.has(day)) day--;
+  let streak = 0;
+  while (cleared.has(day - streak)) streak++;
+  return streak;
+};
+
+export const dailyBests = (history: DailyResult[]) => {
+  const clears = history.filter(r => r.cleared);
+  let longestStreak = 0;
+  let run = 0;
+  clears.forEach((r, i) => {
+    run = i > 0 && dayNumber(r.date) - dayNumber(clears[i - 1].date) === 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  return {
+    clears: clears.length,
+    fastestMs: clears.length > 0 ? Math.min(...clears.map(r => r.timeMs)) : null,
+    fewestBombs: clears.length > 0 ? Math.min(...clears.map(r => r.bombs)) : null,
+    longestStreak
+  };
+};
+
+export const formatClearTime = (ms: number) => {
+  const tenths = Math.round(ms / 100);
+  return `${Math.floor(tenths / 600)}:${pad(Math.floor(tenths / 10) % 60)}.${tenths % 10}`;
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+// Plain text to paste into a chat and compare with the others who played.
+export const shareText = (result: DailyResult, streak: number) => [
+  `Bunny Bomber Daily ${result.date} #${result.seedHash}`,
+  result.cleared ? `✅ Cleared in ${formatClearTime(result.timeMs)}` : `❌ Not cleared (${formatClearTime(result.timeMs)})`,
+  `💣 ${plural(result.bombs, 'bomb')} · 💀 ${plural(result.deaths, 'death')}`,
+  ...(streak > 0 ? [`🔥 ${streak}-day streak`] : [])
+].join('\n');
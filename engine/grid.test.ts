@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { GameMode, TileType } from '../types';
+import { CLASSIC_RULES, TILE_SIZE } from '../constants';
+import { createGame, createPlayer, placeBomb } from './simulation';
+import { parseLevel } from './levels';
+import { canEnter, getGridPos, isCollision, stopsFlames, teleportPartner, tileCenter } from './grid';
+import { dangerTiles } from './ai';
+
+const stage = (grid: string[]) => {
+  const { layout } = parseLevel(grid.join('\n'));
+  return createGame(1, { layout, mode: GameMode.Adventure });
+};
+
+const ROOM = [
+  '#######',
+  '#P....#',
+  '#.#.#.#',
+  '#...+.#',
+  '#######',
+];
+
+// Whether a bomber centred at `from` may move by (dx, dy).
+const blocked = (state: ReturnType<typeof stage>, from: { x: number; y: number }, dx: number, dy: number) =>
+  isCollision(state, from.x + dx, from.y + dy, CLASSIC_RULES.hitboxSize, CLASSIC_RULES.hitboxSize, from.x, from.y);
+
+describe('getGridPos and tileCenter', () => {
+  it('round-trips every tile', () => {
+    for (let r = 0; r < 5; r++) {
+      for (let c = 0; c < 7; c++) {
+        const center = tileCenter(r, c);
+        expect(getGridPos(center.x, center.y)).toEqual({ r, c });
+        expect(getGridPos(c * TILE_SIZE, r * TILE_SIZE)).toEqual({ r, c });
+        expect(getGridPos((c + 1) * TILE_SIZE - 0.01, (r + 1) * TILE_SIZE - 0.01)).toEqual({ r, c });
+      }
+    }
+  });
+});
+
+describe('isCollision', () => {
+  it('lets a bomber walk along open floor', () => {
+    const state = stage(ROOM);
+    expect(blocked(state, tileCenter(1, 1), 4, 0)).toBe(false);
+    expect(blocked(state, tileCenter(1, 1), 0, 4)).toBe(false);
+  });
+
+  it('stops a bomber at hard and soft walls, but not before touching them', () => {
+    const state = stage(ROOM);
+    const gap = (TILE_SIZE - CLASSIC_RULES.hitboxSize) / 2;
+    expect(blocked(state, tileCenter(1, 1), 0, -gap)).toBe(false);
+    expect(blocked(state, tileCenter(1, 1), 0, -gap - 1)).toBe(true);
+    expect(blocked(state, tileCenter(3, 3), gap, 0)).toBe(false);
+    expect(blocked(state, tileCenter(3, 3), gap + 1, 0)).toBe(true);
+  });
+
+  it('catches a hitbox that clips the corner of a pillar', () => {
+    const state = stage(ROOM);
+    const off = { x: tileCenter(1, 1).x + 10, y: tileCenter(1, 1).y };
+    expect(blocked(state, off, 0, 10)).toBe(true);
+  });
+
+  it('treats the outside of the map as solid', () => {
+    const state = stage(['P..', '...', '...']);
+    expect(blocked(state, tileCenter(0, 0), 0, -TILE_SIZE)).toBe(true);
+    expect(blocked(state, tileCenter(0, 0), -TILE_SIZE, 0)).toBe(true);
+  });
+
+  it('blocks walking onto a bomb but not off the one underfoot', () => {
+    const state = stage(ROOM);
+    placeBomb(state, state.players[0]);
+    expect(blocked(state, tileCenter(1, 1), 4, 0)).toBe(false);
+    expect(blocked(state, tileCenter(1, 2), -10, 0)).toBe(true);
+  });
+
+  it('lets bombers walk over mines', () => {
+    const state = stage(ROOM);
+    state.players[0] = { ...createPlayer(), mines: 1 };
+    placeBomb(state, state.players[0]);
+    expect(state.bombs[0].mine).toBe(true);
+    expect(blocked(state, tileCenter(1, 2), -10, 0)).toBe(false);
+  });
+
+  it('turns back moves against a one-way tile only when entering it', () => {
+    const state = stage(['#####', '#P>.#', '#####']);
+    const left = tileCenter(1, 1), right = tileCenter(1, 3);
+    expect(blocked(state, left, 12, 0)).toBe(false);
+    expect(blocked(state, right, -12, 0)).toBe(true);
+    // Already on the arrow, stepping back off it is allowed
+    const on = tileCenter(1, 2);
+    expect(blocked(state, on, -4, 0)).toBe(false);
+  });
+});
+
+describe('tile rules', () => {
+  it('lets piercing flames through soft walls but never tough ones', () => {
+    expect(stopsFlames(TileType.SoftWall, false)).toBe(true);
+    expect(stopsFlames(TileType.SoftWall, true)).toBe(false);
+    expect(stopsFlames(TileType.ToughWall, true)).toBe(true);
+    expect(stopsFlames(TileType.Empty, false)).toBe(false);
+  });
+
+  it('only enters arrows heading their way', () => {
+    expect(canEnter(TileType.ArrowUp, { x: 0, y: -1 })).toBe(true);
+    expect(canEnter(TileType.ArrowUp, { x: 0, y: 1 })).toBe(false);
+    expect(canEnter(TileType.ArrowUp, { x: 1, y: 0 })).toBe(false);
+    expect(canEnter(TileType.Ice, { x: 1, y: 0 })).toBe(true);
+    expect(canEnter(TileType.ToughWall, { x: 1, y: 0 })).toBe(false);
+  });
+
+  it('pairs teleporters in reading order', () => {
+    const { tiles } = parseLevel(['@.@', '.P.', '@.@', '@..'].join('\n')).layout;
+    expect(teleportPartner(tiles, 0, 0)).toEqual({ r: 0, c: 2 });
+    expect(teleportPartner(tiles, 2, 2)).toEqual({ r: 2, c: 0 });
+    expect(teleportPartner(tiles, 3, 0)).toBeNull();
+    expect(teleportPartner(tiles, 1, 1)).toBeNull();
+  });
+});
+
+describe('dangerTiles', () => {
+  const hot = (state: ReturnType<typeof stage>) => dangerTiles(state).flatMap((row, r) => row.flatMap((d, c) => d ? [`${r},${c}`] : []));
+
+  it('marks where a thrown bomb will land, not the wall it is flying over', () => {
+    const state = stage(ROOM);
+    state.enemies = [];
+    state.bombs.push({
+      id: state.nextId++, ...tileCenter(2, 2), timer: CLASSIC_RULES.bombTimerMs, range: 1, ownerId: state.players[0].id,
+      remote: false, pierce: false, mine: false, sliding: null, flight: tileCenter(1, 2)
+    });
+    expect(hot(state)).toEqual(['1,1', '1,2', '1,3']);
+  });
+});
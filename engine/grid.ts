@@ -0,0 +1,111 @@
+import { TileType, GameState, GridPos, Point } from '../types';
+import { TILE_SIZE } from '../constants';
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const rectIntersect = (r1: Rect, r2: Rect) => {
+  return !(r2.x >= r1.x + r1.w || r2.x + r2.w <= r1.x || r2.y >= r1.y + r1.h || r2.y + r2.h <= r1.y);
+};
+
+export const getGridPos = (x: number, y: number): GridPos => {
+  return { c: Math.floor(x / TILE_SIZE), r: Math.floor(y / TILE_SIZE) };
+};
+
+export const tileCenter = (r: number, c: number) => {
+  return { x: c * TILE_SIZE + TILE_SIZE / 2, y: r * TILE_SIZE + TILE_SIZE / 2 };
+};
+
+export const inBounds = (map: TileType[][], r: number, c: number) => {
+  return r >= 0 && r < map.length && c >= 0 && c < map[0].length;
+};
+
+const CONVEYORS: Partial<Record<TileType, Point>> = {
+  [TileType.ConveyorUp]: { x: 0, y: -1 },
+  [TileType.ConveyorDown]: { x: 0, y: 1 },
+  [TileType.ConveyorLeft]: { x: -1, y: 0 },
+  [TileType.ConveyorRight]: { x: 1, y: 0 },
+};
+
+const ARROWS: Partial<Record<TileType, Point>> = {
+  [TileType.ArrowUp]: { x: 0, y: -1 },
+  [TileType.ArrowDown]: { x: 0, y: 1 },
+  [TileType.ArrowLeft]: { x: -1, y: 0 },
+  [TileType.ArrowRight]: { x: 1, y: 0 },
+};
+
+export const conveyorDir = (tile: TileType) => CONVEYORS[tile] ?? null;
+export const arrowDir = (tile: TileType) => ARROWS[tile] ?? null;
+
+// Anything that is not a wall can be stood on.
+export const isFloor = (tile: TileType) => tile !== TileType.HardWall && tile !== TileType.SoftWall && tile !== TileType.ToughWall;
+
+export const isBreakable = (tile: TileType) => tile === TileType.SoftWall || tile === TileType.ToughWall;
+
+// Whether flames stop at a breakable wall they have just reached. Piercing
+// flames go through soft walls but not tough ones.
+export const stopsFlames = (tile: TileType, pierce: boolean) => tile === TileType.ToughWall || (tile === TileType.SoftWall && !pierce);
+
+// Floor that can be stepped onto heading in `dir`; one-way tiles turn away
+// anything not moving the way they point.
+export const canEnter = (tile: TileType, dir: Point) => {
+  const arrow = arrowDir(tile);
+  return isFloor(tile) && (!arrow || dir.x * arrow.x + dir.y * arrow.y > 0);
+};
+
+// The other end of the teleporter at (r, c). Teleporters pair up in reading
+// order; an odd one out leads nowhere.
+export const teleportPartner = (map: TileType[][], r: number, c: number): GridPos | null => {
+  const pads: GridPos[] = [];
+  map.forEach((row, pr) => row.forEach((tile, pc) => {
+    if (tile === TileType.Teleporter) pads.push({ r: pr, c: pc });
+  }));
+  const i = pads.findIndex(p => p.r === r && p.c === c);
+  return i >= 0 ? pads[i ^ 1] ?? null : null;
+};
+
+// Thrown bombs are in the air, so they neither block nor get hit.
+export const bombAt = (state: GameState, r: number, c: number) => {
+  return state.bombs.find(b => {
+    if (b.flight) return false;
+    const bPos = getGridPos(b.x, b.y);
+    return bPos.r === r && bPos.c === c;
+  });
+};
+
+export const isCollision = (state: GameState, targetX: number, targetY: number, w: number, h: number, currentX: number, currentY: number) => {
+  const pRect = { x: targetX - w/2, y: targetY - h/2, w: w, h: h };
+  const curRect = { x: currentX - w/2, y: currentY - h/2, w: w, h: h };
+
+  const left = Math.floor(pRect.x / TILE_SIZE);
+  const right = Math.floor((pRect.x + pRect.w - 0.01) / TILE_SIZE);
+  const top = Math.floor(pRect.y / TILE_SIZE);
+  const bottom = Math.floor((pRect.y + pRect.h - 0.01) / TILE_SIZE);
+
+  const dir = { x: targetX - currentX, y: targetY - currentY };
+  for (let r = top; r <= bottom; r++) {
+    for (let c = left; c <= right; c++) {
+      if (!inBounds(state.map, r, c)) return true;
+      const tile = state.map[r][c];
+      if (!isFloor(tile)) return true;
+      // One-way tiles only care about the move that first enters them
+      const entering = !rectIntersect(curRect, { x: c * TILE_SIZE, y: r * TILE_SIZE, w: TILE_SIZE, h: TILE_SIZE });
+      if (entering && !canEnter(tile, dir)) return true;
+    }
+  }
+
+  for (const b of state.bombs) {
+    if (b.mine || b.flight) continue;
+    const bRect = { x: b.x - TILE_SIZE/2, y: b.y - TILE_SIZE/2, w: TILE_SIZE, h: TILE_SIZE };
+    if (rectIntersect(pRect, bRect)) {
+      // Let entities walk off a bomb they are standing on
+      if (rectIntersect(curRect, bRect)) continue;
+      return true;
+    }
+  }
+  return false;
+};
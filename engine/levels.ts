@@ -0,0 +1,349 @@
+import { TileType, EnemyKind, GridPos, LevelDefinition, LevelItem, LevelLayout, LevelTheme, PowerUpType } from '../types';
+import { RULE_LIMITS } from '../constants';
+import { DEFAULT_LOADOUT } from './simulation';
+import { isFloor } from './grid';
+
+// Plain-text level format:
+//
+//   id: stone-garden
+//   name: Stone Garden
+//   theme: desert
+//   time: 200
+//   ---
+//   ###############
+//   #P..+.+.....E.#
+//   ...
+//
+// Grid legend: `#` hard wall, `+` soft wall, `%` tough wall (two blasts),
+// `.` empty, `~` ice, `@` teleporter (paired in reading order), `^` `v` `<`
+// `>` one-way tiles, `8` `2` `4` `6` conveyor belts running up, down, left
+// and right (as on a numpad), `P` player spawn, an upper-case enemy letter
+// (see ENEMY_CHARS), `D` exit door under a soft wall, and a lower-case item
+// letter for a power-up buried under a soft wall (see ITEM_CHARS). Lines
+// starting with `;` are comments. The same fields can be given as JSON, with
+// the grid as an array of strings under `grid`.
+
+export const ITEM_CHARS: Record<string, PowerUpType> = {
+  b: PowerUpType.ExtraBomb,
+  f: PowerUpType.FireRange,
+  s: PowerUpType.Speed,
+  k: PowerUpType.Kick,
+  r: PowerUpType.Remote,
+  p: PowerUpType.Pierce,
+  x: PowerUpType.Skull,
+  m: PowerUpType.Mine,
+  g: PowerUpType.Throw,
+};
+
+export const ENEMY_CHARS: Record<string, EnemyKind> = {
+  E: EnemyKind.Wanderer,
+  C: EnemyKind.Chaser,
+  A: EnemyKind.BombAvoider,
+  G: EnemyKind.Ghost,
+  F: EnemyKind.Speedy,
+};
+
+export const TILE_CHARS: Record<string, TileType> = {
+  '#': TileType.HardWall,
+  '+': TileType.SoftWall,
+  '%': TileType.ToughWall,
+  '.': TileType.Empty,
+  '~': TileType.Ice,
+  '@': TileType.Teleporter,
+  '^': TileType.ArrowUp,
+  'v': TileType.ArrowDown,
+  '<': TileType.ArrowLeft,
+  '>': TileType.ArrowRight,
+  '8': TileType.ConveyorUp,
+  '2': TileType.ConveyorDown,
+  '4': TileType.ConveyorLeft,
+  '6': TileType.ConveyorRight,
+};
+
+const DEFAULT_TIME_S = 180;
+
+export class LevelFormatError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'LevelFormatError';
+    this.issues = issues;
+  }
+}
+
+export interface LevelSource {
+  id: string;
+  name: string;
+  theme: LevelTheme;
+  timeLimitMs: number;
+  grid: string[];
+}
+
+const at = ({ r, c }: GridPos) => `row ${r + 1}, column ${c + 1}`;
+
+const parseTheme = (value: string, issues: string[]) => {
+  const key = Object.keys(LevelTheme).find(k => isNaN(Number(k)) && k.toLowerCase() === value.trim().toLowerCase());
+  if (!key) {
+    issues.push(`Unknown theme '${value}'`);
+    return LevelTheme.Meadow;
+  }
+  return LevelTheme[key as keyof typeof LevelTheme];
+};
+
+const parseTime = (value: unknown, issues: string[]) => {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    issues.push(`Time limit must be a positive number of seconds, got '${value}'`);
+    return DEFAULT_TIME_S * 1000;
+  }
+  return seconds * 1000;
+};
+
+const readJson = (text: string, issues: string[]): LevelSource => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new LevelFormatError([`Invalid JSON: ${(e as Error).message}`]);
+  }
+  const grid = data.grid;
+  if (!Array.isArray(grid) || grid.some(line => typeof line !== 'string')) {
+    throw new LevelFormatError(['JSON level needs a `grid` array of strings']);
+  }
+  return {
+    id: String(data.id ?? ''),
+    name: String(data.name ?? ''),
+    theme: parseTheme(String(data.theme ?? 'meadow'), issues),
+    timeLimitMs: parseTime(data.time ?? DEFAULT_TIME_S, issues),
+    grid: grid as string[],
+  };
+};
+
+const readText = (text: string, issues: string[]): LevelSource => {
+  const lines = text.split(/\r?\n/);
+  const divider = lines.findIndex(line => line.trim() === '---');
+  const header = divider >= 0 ? lines.slice(0, divider) : [];
+  const body = divider >= 0 ? lines.slice(divider + 1) : lines;
+
+  const source: LevelSource = { id: '', name: '', theme: LevelTheme.Meadow, timeLimitMs: DEFAULT_TIME_S * 1000, grid: [] };
+  header.forEach((line, i) => {
+    if (line.trim() === '' || line.trim().startsWith(';')) return;
+    const match = line.match(/^\s*(\w+)\s*:\s*(.*)$/);
+    if (!match) {
+      issues.push(`Line ${i + 1}: expected 'key: value', got '${line}'`);
+      return;
+    }
+    const [, key, value] = match;
+    switch (key) {
+      case 'id': source.id = value.trim(); break;
+      case 'name': source.name = value.trim(); break;
+      case 'theme': source.theme = parseTheme(value, issues); break;
+      case 'time': source.timeLimitMs = parseTime(value, issues); break;
+      default: issues.push(`Line ${i + 1}: unknown key '${key}'`);
+    }
+  });
+  source.grid = body.map(line => line.trimEnd()).filter(line => line !== '' && !line.startsWith(';'));
+  return source;
+};
+
+const parseGrid = (grid: string[], issues: string[]): LevelLayout => {
+  const layout: LevelLayout = { tiles: [], spawn: { r: -1, c: -1 }, enemies: [], exit: null, items: [] };
+  const spawns: GridPos[] = [];
+  const doors: GridPos[] = [];
+  const cols = grid[0]?.length ?? 0;
+
+  grid.forEach((line, r) => {
+    if (line.length !== cols) issues.push(`Row ${r + 1} has ${line.length} columns, expected ${cols}`);
+    const row: TileType[] = [];
+    [...line].forEach((ch, c) => {
+      const pos = { r, c };
+      if (ch in TILE_CHARS) {
+        row.push(TILE_CHARS[ch]);
+      } else if (ch === 'P') {
+        spawns.push(pos);
+        row.push(TileType.Empty);
+      } else if (ch in ENEMY_CHARS) {
+        layout.enemies.push({ ...pos, kind: ENEMY_CHARS[ch] });
+        row.push(TileType.Empty);
+      } else if (ch === 'D') {
+        doors.push(pos);
+        row.push(TileType.SoftWall);
+      } else if (ch in ITEM_CHARS) {
+        layout.items.push({ ...pos, type: ITEM_CHARS[ch] });
+        row.push(TileType.SoftWall);
+      } else {
+        issues.push(`Unknown tile '${ch}' at ${at(pos)}`);
+        row.push(TileType.Empty);
+      }
+    });
+    layout.tiles.push(row);
+  });
+
+  if (spawns.length > 1) issues.push(`Level can have only one player spawn 'P', found ${spawns.length}`);
+  layout.spawn = spawns[0] ?? layout.spawn;
+  if (doors.length > 1) issues.push(`Level can have at most one exit door 'D', found ${doors.length}`);
+  layout.exit = doors[0] ?? null;
+  return layout;
+};
+
+// Parses level text (plain or JSON) into a source description and layout.
+// Syntax problems throw a LevelFormatError listing every issue found.
+export const parseLevel = (text: string): { source: LevelSource; layout: LevelLayout } => {
+  const issues: string[] = [];
+  const source = text.trimStart().startsWith('{') ? readJson(text, issues) : readText(text, issues);
+  if (source.grid.length === 0) issues.push('Level has no grid');
+  const layout = parseGrid(source.grid, issues);
+  if (issues.length > 0) throw new LevelFormatError(issues);
+  return { source, layout };
+};
+
+const NEIGHBOURS = [{ r: -1, c: 0 }, { r: 1, c: 0 }, { r: 0, c: -1 }, { r: 0, c: 1 }];
+
+// Flood fill over the tiles accepted by `passable`.
+const reachable = (tiles: TileType[][], from: GridPos, passable: (tile: TileType) => boolean) => {
+  const seen = tiles.map(row => row.map(() => false));
+  const queue = [from];
+  seen[from.r][from.c] = true;
+  while (queue.length > 0) {
+    const { r, c } = queue.shift()!;
+    for (const d of NEIGHBOURS) {
+      const nr = r + d.r, nc = c + d.c;
+      if (nr < 0 || nr >= tiles.length || nc < 0 || nc >= tiles[nr].length) continue;
+      if (seen[nr][nc] || !passable(tiles[nr][nc])) continue;
+      seen[nr][nc] = true;
+      queue.push({ r: nr, c: nc });
+    }
+  }
+  return seen;
+};
+
+const blastFrom = (tiles: TileType[][], from: GridPos) => {
+  const blast = tiles.map(row => row.map(() => false));
+  blast[from.r][from.c] = true;
+  NEIGHBOURS.forEach(d => {
+    for (let i = 1; i <= DEFAULT_LOADOUT.blastRadius; i++) {
+      const r = from.r + d.r * i, c = from.c + d.c * i;
+      const tile = tiles[r]?.[c];
+      if (tile === undefined || !isFloor(tile)) break;
+      blast[r][c] = true;
+    }
+  });
+  return blast;
+};
+
+// Somewhere in the open area around the spawn the player must be able to drop
+// a bomb and still walk out of its blast, otherwise the level can never be
+// opened up.
+const canEscapeFirstBomb = (layout: LevelLayout) => {
+  const { tiles, spawn } = layout;
+  const walkable = reachable(tiles, spawn, isFloor);
+  return walkable.some((row, r) => row.some((ok, c) => {
+    if (!ok) return false;
+    const blast = blastFrom(tiles, { r, c });
+    return walkable.some((other, or) => other.some((free, oc) => free && !blast[or][oc]));
+  }));
+};
+
+// Checks that a parsed layout is playable. Returns a list of human-readable
+// problems; an empty list means the level is valid. A level can be played
+// under any rules, so by default enemies must clear the widest safe zone.
+export const validateLayout = (
+  layout: LevelLayout,
+  { requireExit = true, safeRadius = RULE_LIMITS.spawnSafeRadius.max } = {}
+): string[] => {
+  const issues: string[] = [];
+  const { tiles, spawn } = layout;
+  const rows = tiles.length;
+  const cols = tiles[0]?.length ?? 0;
+
+  if (rows < 3 || cols < 3) return [`Level must be at least 3x3, got ${rows}x${cols}`];
+  if (spawn.r < 0) return ["Level has no player spawn 'P'"];
+
+  tiles.forEach((row, r) => row.forEach((tile, c) => {
+    const border = r === 0 || r === rows - 1 || c === 0 || c === cols - 1;
+    if (border && tile !== TileType.HardWall) issues.push(`Border is not enclosed at ${at({ r, c })}`);
+  }));
+  if (issues.length > 0) return issues;
+
+  const fromSpawn = reachable(tiles, spawn, tile => tile !== TileType.HardWall);
+
+  layout.enemies.forEach(pos => {
+    if (Math.max(Math.abs(pos.r - spawn.r), Math.abs(pos.c - spawn.c)) <= safeRadius) {
+      const widest = safeRadius === RULE_LIMITS.spawnSafeRadius.max ? ', the widest the rules allow' : '';
+      issues.push(`Enemy at ${at(pos)} is inside the ${safeRadius}-tile safe zone around the player spawn${widest}`);
+    } else if (!fromSpawn[pos.r][pos.c]) {
+      issues.push(`Enemy at ${at(pos)} cannot be reached from the player spawn`);
+    }
+  });
+  if (layout.enemies.length === 0) issues.push('Level has no enemies');
+
+  if (layout.exit) {
+    if (!fromSpawn[layout.exit.r][layout.exit.c]) issues.push(`Exit door at ${at(layout.exit)} cannot be reached from the player spawn`);
+  } else if (requireExit) {
+    issues.push("Level has no exit door 'D'");
+  }
+
+  layout.items.forEach(item => {
+    if (!fromSpawn[item.r][item.c]) issues.push(`Item at ${at(item)} cannot be reached from the player spawn`);
+  });
+
+  const teleporters = tiles.flat().filter(tile => tile === TileType.Teleporter).length;
+  if (teleporters % 2 !== 0) issues.push(`Teleporters come in pairs, found ${teleporters}`);
+
+  if (!canEscapeFirstBomb(layout)) issues.push('Player spawn is boxed in: there is nowhere to drop a bomb and escape its blast');
+
+  return issues;
+};
+
+export const toLevelDefinition = (source: LevelSource, layout: LevelLayout): LevelDefinition => ({
+  id: source.id,
+  name: source.name || source.id,
+  rows: layout.tiles.length,
+  cols: layout.tiles[0].length,
+  softWallDensity: 0,
+  layout,
+  enemies: layout.enemies.map(e => e.kind),
+  timeLimitMs: source.timeLimitMs,
+  theme: source.theme,
+});
+
+// Parses and validates level text, ready to hand to the campaign.
+export const loadLevel = (text: string): LevelDefinition => {
+  const { source, layout } = parseLevel(text);
+  const issues = validateLayout(layout);
+  if (issues.length > 0) {
+    throw new LevelFormatError(source.id ? issues.map(issue => `${source.id}: ${issue}`) : issues);
+  }
+  return toLevelDefinition(source, layout);
+};
+
+const itemChar = (type: PowerUpType) => Object.keys(ITEM_CHARS).find(ch => ITEM_CHARS[ch] === type)!;
+const enemyChar = (kind: EnemyKind) => Object.keys(ENEMY_CHARS).find(ch => ENEMY_CHARS[ch] === kind)!;
+const tileChar = (tile: TileType) => Object.keys(TILE_CHARS).find(ch => TILE_CHARS[ch] === tile) ?? '.';
+
+export const layoutToGrid = (layout: LevelLayout): string[] => {
+  const chars: string[][] = layout.tiles.map(row => row.map(tileChar));
+  layout.items.forEach((item: LevelItem) => { chars[item.r][item.c] = itemChar(item.type); });
+  layout.enemies.forEach(({ r, c, kind }) => { chars[r][c] = enemyChar(kind); });
+  if (layout.exit) chars[layout.exit.r][layout.exit.c] = 'D';
+  if (layout.spawn.r >= 0) chars[layout.spawn.r][layout.spawn.c] = 'P';
+  return chars.map(row => row.join(''));
+};
+
+// Inverse of parseLevel for the plain-text form.
+export const serializeSource = (source: LevelSource): string => {
+  return [
+    `id: ${source.id}`,
+    `name: ${source.name}`,
+    `theme: ${LevelTheme[source.theme].toLowerCase()}`,
+    `time: ${Math.round(source.timeLimitMs / 1000)}`,
+    '---',
+    ...source.grid,
+    '',
+  ].join('\n');
+};
+
+export const serializeLevel = (source: Omit<LevelSource, 'grid'>, layout: LevelLayout): string => {
+  return serializeSource({ ...source, grid: layoutToGrid(layout) });
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { EnemyKind, TileType } from '../types';
+import { SPAWN_SAFE_RADIUS } from '../constants';
+import { createRng } from './rng';
+import { generateMap, isPillar, placeExit, spawnCorners, spawnEnemies } from './mapgen';
+import { getGridPos } from './grid';
+
+const SEEDS = Array.from({ length: 50 }, (_, i) => i * 7919 + 1);
+
+describe('generateMap', () => {
+  it.each([[15, 15], [11, 13], [13, 21]])('walls the border and sets pillars on even tiles (%ix%i)', (rows, cols) => {
+    const solid = Array.from({ length: rows }, (_, r) => Array.from({ length: cols }, (_, c) =>
+      r === 0 || r === rows - 1 || c === 0 || c === cols - 1 || (r % 2 === 0 && c % 2 === 0)));
+    expect(solid.map((row, r) => row.map((_, c) => isPillar(rows, cols, r, c)))).toEqual(solid);
+    for (const seed of SEEDS) {
+      const map = generateMap(createRng(seed), rows, cols, 0.5);
+      expect(map.map(row => row.map(tile => tile === TileType.HardWall))).toEqual(solid);
+    }
+  });
+
+  it('keeps the tiles around every spawn clear', () => {
+    const spawns = spawnCorners(15, 15);
+    for (const seed of SEEDS) {
+      const map = generateMap(createRng(seed), 15, 15, 1, spawns);
+      spawns.forEach(({ r, c }) => {
+        for (let dr = -1; dr <= 1; dr++) {
+          for (let dc = -1; dc <= 1; dc++) {
+            expect(map[r + dr][c + dc]).not.toBe(TileType.SoftWall);
+          }
+        }
+        // Both ways out of the corner stay open
+        expect(map[r][c + (c === 1 ? 1 : -1)]).toBe(TileType.Empty);
+        expect(map[r + (r === 1 ? 1 : -1)][c]).toBe(TileType.Empty);
+      });
+    }
+  });
+
+  it('fills every other free tile at full density and none at zero', () => {
+    const full = generateMap(createRng(3), 15, 15, 1);
+    const empty = generateMap(createRng(3), 15, 15, 0);
+    full.forEach((row, r) => row.forEach((tile, c) => {
+      if (isPillar(15, 15, r, c)) return;
+      const safe = r <= 2 && c <= 2;
+      expect(tile).toBe(safe ? TileType.Empty : TileType.SoftWall);
+      expect(empty[r][c]).toBe(TileType.Empty);
+    }));
+  });
+
+  it('is reproducible from the seed', () => {
+    expect(generateMap(createRng(42), 15, 15, 0.3)).toEqual(generateMap(createRng(42), 15, 15, 0.3));
+    expect(generateMap(createRng(42), 15, 15, 0.3)).not.toEqual(generateMap(createRng(43), 15, 15, 0.3));
+  });
+});
+
+describe('placeExit and spawnEnemies', () => {
+  const far = (pos: { r: number; c: number }) => Math.max(Math.abs(pos.r - 1), Math.abs(pos.c - 1)) > SPAWN_SAFE_RADIUS;
+
+  it('hides the exit under a soft wall away from the spawn', () => {
+    for (const seed of SEEDS) {
+      const rng = createRng(seed);
+      const map = generateMap(rng, 15, 15, 0.3);
+      const exit = placeExit(rng, map)!;
+      const pos = getGridPos(exit.x, exit.y);
+      expect(map[pos.r][pos.c]).toBe(TileType.SoftWall);
+      expect(exit.hidden).toBe(true);
+      expect(far(pos)).toBe(true);
+    }
+  });
+
+  it('puts each enemy on its own empty tile away from the spawn', () => {
+    for (const seed of SEEDS) {
+      const rng = createRng(seed);
+      const map = generateMap(rng, 15, 15, 0.3);
+      let id = 1;
+      const enemies = spawnEnemies(rng, map, Array(6).fill(EnemyKind.Wanderer), () => id++);
+      expect(enemies).toHaveLength(6);
+      const tiles = new Set(enemies.map(e => {
+        const pos = getGridPos(e.x, e.y);
+        expect(map[pos.r][pos.c]).toBe(TileType.Empty);
+        expect(far(pos)).toBe(true);
+        return `${pos.r},${pos.c}`;
+      }));
+      expect(tiles.size).toBe(6);
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { TileType, Enemy, EnemyKind, Exit, GridPos, MatchRules } from '../types';
+import { CLASSIC_RULES, ENEMY_ARCHETYPES } from '../constants';
+import { Rng, nextFloat, nextInt } from './rng';
+import { tileCenter } from './grid';
+
+export const isPillar = (rows: number, cols: number, r: number, c: number) => {
+  return r === 0 || r === rows - 1 || c === 0 || c === cols - 1 || (r % 2 === 0 && c % 2 === 0);
+};
+
+const DEFAULT_SPAWNS: GridPos[] = [{ r: 1, c: 1 }];
+
+// Bomber starting tiles: top-left first, then the opposite corner, then the
+// remaining two.
+export const spawnCorners = (rows: number, cols: number): GridPos[] => [
+  { r: 1, c: 1 },
+  { r: rows - 2, c: cols - 2 },
+  { r: 1, c: cols - 2 },
+  { r: rows - 2, c: 1 }
+];
+
+const near = (spawns: GridPos[], r: number, c: number, radius: number) => {
+  return spawns.some(s => Math.abs(s.r - r) <= radius && Math.abs(s.c - c) <= radius);
+};
+
+export const generateMap = (rng: Rng, rows: number, cols: number, density: number, spawns: GridPos[] = DEFAULT_SPAWNS): TileType[][] => {
+  const map: TileType[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const row: TileType[] = [];
+    for (let c = 0; c < cols; c++) {
+      if (isPillar(rows, cols, r, c)) {
+        row.push(TileType.HardWall);
+      } else {
+        const isSafeZone = near(spawns, r, c, 1);
+        if (!isSafeZone && nextFloat(rng) < density) {
+          row.push(TileType.SoftWall);
+        } else {
+          row.push(TileType.Empty);
+        }
+      }
+    }
+    map.push(row);
+  }
+  return map;
+};
+
+const tilesOf = (map: TileType[][], type: TileType, spawns: GridPos[], safeRadius: number) => {
+  const tiles: GridPos[] = [];
+  map.forEach((row, r) => row.forEach((tile, c) => {
+    if (tile === type && !near(spawns, r, c, safeRadius)) tiles.push({ r, c });
+  }));
+  return tiles;
+};
+
+export const exitAt = (map: TileType[][], { r, c }: GridPos): Exit => {
+  return { ...tileCenter(r, c), hidden: map[r][c] === TileType.SoftWall, open: false };
+};
+
+// Hides the exit under a random soft wall, or leaves it in the open when the
+// map has none to spare.
+export const placeExit = (rng: Rng, map: TileType[][], spawns: GridPos[] = DEFAULT_SPAWNS, rules: MatchRules = CLASSIC_RULES): Exit | null => {
+  const walls = tilesOf(map, TileType.SoftWall, spawns, rules.spawnSafeRadius);
+  const candidates = walls.length > 0 ? walls : tilesOf(map, TileType.Empty, spawns, rules.spawnSafeRadius);
+  if (candidates.length === 0) return null;
+  return exitAt(map, candidates[nextInt(rng, candidates.length)]);
+};
+
+export const createEnemy = (id: number, { r, c }: GridPos, kind: EnemyKind, size = CLASSIC_RULES.hitboxSize): Enemy => ({
+  id,
+  kind,
+  ...tileCenter(r, c),
+  width: size,
+  height: size,
+  alive: true,
+  speed: ENEMY_ARCHETYPES[kind].speed,
+  direction: { x: 0, y: 0 },
+  changeDirTimer: 0
+});
+
+export const spawnEnemies = (
+  rng: Rng, map: TileType[][], roster: EnemyKind[], nextId: () => number, spawns: GridPos[] = DEFAULT_SPAWNS, rules: MatchRules = CLASSIC_RULES
+): Enemy[] => {
+  const free = tilesOf(map, TileType.Empty, spawns, rules.spawnSafeRadius);
+  const enemies: Enemy[] = [];
+  for (const kind of roster) {
+    if (free.length === 0) break;
+    const pos = free.splice(nextInt(rng, free.length), 1)[0];
+    enemies.push(createEnemy(nextId(), pos, kind, rules.hitboxSize));
+  }
+  return enemies;
+};
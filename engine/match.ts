@@ -0,0 +1,40 @@
+import { BattleSetup, GameMode, GameOptions, GameState, GameStatus, MatchState } from '../types';
+import { createGame } from './simulation';
+
+export const startMatch = (seed: number, setup: BattleSetup): MatchState => ({
+  seed,
+  setup,
+  round: 0,
+  wins: {},
+  draws: 0
+});
+
+// Every round of a match plays on a fresh arena.
+export const roundSeed = (match: MatchState) => (match.seed + Math.imul(match.round + 1, 0x85EBCA6B)) >>> 0;
+
+export const roundOptions = (match: MatchState): Partial<GameOptions> => ({
+  mode: GameMode.Battle,
+  humans: match.setup.humans,
+  rivals: match.setup.rivals,
+  enemies: [],
+  timeLimitMs: match.setup.roundTimeMs,
+  exit: false,
+  rows: match.setup.rows,
+  cols: match.setup.cols,
+  rules: match.setup.rules
+});
+
+export const createRound = (match: MatchState): GameState => createGame(roundSeed(match), roundOptions(match));
+
+// Records the outcome of a finished round and moves on to the next one.
+export const resolveRound = (match: MatchState, state: GameState): MatchState => {
+  if (state.status !== GameStatus.RoundOver) return match;
+  const next = { ...match, round: match.round + 1 };
+  if (state.winnerId === null) return { ...next, draws: match.draws + 1 };
+  return { ...next, wins: { ...match.wins, [state.winnerId]: (match.wins[state.winnerId] ?? 0) + 1 } };
+};
+
+export const matchWinner = (match: MatchState): string | null => {
+  const entry = Object.entries(match.wins).find(([, wins]) => wins >= match.setup.winsNeeded);
+  return entry ? entry[0] : null;
+};
@@ -0,0 +1,182 @@
+import { BattleSetup, GameState, GameStatus, MatchState, PlayerInput, PlayerInputs, Point, RoomInfo } from '../types';
+import { INTERPOLATION_DELAY_MS, TICK_MS } from '../constants';
+import { humanId, step } from './simulation';
+import { encodeMessage, parseServerMessage } from './protocol';
+
+// Client side of online play. It works on plain text in and out so the same
+// code runs against a browser WebSocket and headless test clients.
+//
+// The local bomber is predicted: every tick its input is sent and also applied
+// to a local copy of the world straight away. Snapshots from the server
+// replace that copy, and inputs the server has not applied yet are replayed on
+// top. Other bombers are drawn a little in the past, between the two
+// snapshots either side of that moment.
+export interface NetClient {
+  send: (text: string) => void;
+  token: string | null;
+  room: RoomInfo | null;
+  you: number; // Index into room.members
+  error: string | null;
+  match: MatchState | null;
+  state: GameState | null; // Predicted world
+  serverTick: number; // Tick of the newest snapshot
+  playerId: string | null; // Null while spectating
+  seq: number;
+  pending: { seq: number; input: PlayerInput }[]; // Sent but not yet acknowledged
+  remoteInputs: PlayerInputs; // Others' latest inputs, held for prediction
+  snapshots: { at: number; positions: Map<string, Point> }[];
+}
+
+// What a received message changed, for the UI to react to.
+export type NetUpdate = 'room' | 'round' | 'state' | 'error';
+
+const MAX_PENDING = 120; // About two seconds; beyond that the server is not listening
+const SNAPSHOT_HISTORY_MS = 1000;
+
+export const createNetClient = (send: (text: string) => void, token: string | null = null): NetClient => ({
+  send,
+  token,
+  room: null,
+  you: -1,
+  error: null,
+  match: null,
+  state: null,
+  serverTick: 0,
+  playerId: null,
+  seq: 0,
+  pending: [],
+  remoteInputs: {},
+  snapshots: []
+});
+
+export const createRoom = (client: NetClient, name: string, setup: BattleSetup) =>
+  client.send(encodeMessage({ type: 'create', name, setup }));
+
+// Passing the token from an earlier session takes the same seat back.
+export const joinRoom = (client: NetClient, code: string, name: string) =>
+  client.send(encodeMessage({ type: 'join', code, name, token: client.token }));
+
+export const startOnlineMatch = (client: NetClient) => client.send(encodeMessage({ type: 'start' }));
+export const startNextRound = (client: NetClient) => client.send(encodeMessage({ type: 'nextRound' }));
+
+export const leaveRoom = (client: NetClient) => {
+  client.send(encodeMessage({ type: 'leave' }));
+  client.room = null;
+  client.state = null;
+  client.match = null;
+  client.playerId = null;
+};
+
+export const isHost = (client: NetClient) => !!client.room?.members[client.you]?.host;
+
+const seatOf = (client: NetClient, state: GameState) => {
+  const slot = client.room?.members[client.you]?.slot ?? -1;
+  const id = slot >= 0 ? humanId(slot) : null;
+  return id && state.players.some(p => p.id === id) ? id : null;
+};
+
+// Only the server decides how a round ends. A prediction that gets there
+// first carries on as if still playing until a snapshot says otherwise.
+const predictStep = (state: GameState, inputs: PlayerInputs) => {
+  step(state, inputs, TICK_MS);
+  if (state.status === GameStatus.Playing) return;
+  state.status = GameStatus.Playing;
+  state.winnerId = null;
+};
+
+// Replays the local inputs the server has not seen yet on top of its world.
+const reconcile = (client: NetClient, state: GameState, acks: Record<string, number>) => {
+  const ack = client.playerId ? acks[client.playerId] ?? 0 : client.seq;
+  client.pending = client.pending.filter(p => p.seq > ack);
+  client.pending.forEach(p => {
+    if (state.status === GameStatus.Playing) predictStep(state, { ...client.remoteInputs, [client.playerId!]: p.input });
+  });
+  state.events = [];
+  client.state = state;
+};
+
+export const receiveMessage = (client: NetClient, text: string, now: number): NetUpdate => {
+  const message = parseServerMessage(text);
+  switch (message.type) {
+    case 'welcome':
+      client.token = message.token;
+      client.room = message.room;
+      client.you = message.you;
+      client.error = null;
+      return 'room';
+    case 'room':
+      client.room = message.room;
+      client.you = message.you;
+      return 'room';
+    case 'error':
+      client.error = message.message;
+      return 'error';
+    case 'state': {
+      const { state, match, acks, inputs } = message;
+      // Rounds restart the tick count, and a rematch changes the seed
+      const newRound = !client.state || client.match?.seed !== match.seed || state.tick < client.serverTick;
+      client.match = match;
+      client.serverTick = state.tick;
+      client.remoteInputs = {};
+      Object.entries(inputs).forEach(([id, input]) => {
+        client.remoteInputs[id] = { ...input, bomb: false, detonate: false };
+      });
+      if (newRound) {
+        client.pending = [];
+        client.snapshots = [];
+        client.playerId = seatOf(client, state);
+      }
+      delete client.remoteInputs[client.playerId ?? ''];
+      client.snapshots.push({ at: now, positions: new Map(state.players.map(p => [p.id, { x: p.x, y: p.y }])) });
+      client.snapshots = client.snapshots.filter(s => now - s.at <= SNAPSHOT_HISTORY_MS);
+      reconcile(client, state, acks);
+      return newRound ? 'round' : 'state';
+    }
+  }
+};
+
+// Runs one local tick: sends the input (when seated) and predicts its effect.
+export const predictTick = (client: NetClient, input: PlayerInput | null) => {
+  const state = client.state;
+  if (!state || state.status !== GameStatus.Playing) return;
+  const inputs: PlayerInputs = { ...client.remoteInputs };
+  if (client.playerId && input) {
+    const seq = ++client.seq;
+    client.pending.push({ seq, input });
+    if (client.pending.length > MAX_PENDING) client.pending.shift();
+    client.send(encodeMessage({ type: 'input', seq, input }));
+    inputs[client.playerId] = input;
+  }
+  predictStep(state, inputs);
+};
+
+const remotePositions = (client: NetClient, now: number) => {
+  const positions = new Map<string, Point>();
+  const { snapshots } = client;
+  if (snapshots.length === 0) return positions;
+  const at = now - INTERPOLATION_DELAY_MS;
+  const after = snapshots.findIndex(s => s.at >= at);
+  const to = snapshots[after === -1 ? snapshots.length - 1 : after];
+  const from = after > 0 ? snapshots[after - 1] : to;
+  const t = to.at > from.at ? (at - from.at) / (to.at - from.at) : 1;
+  to.positions.forEach((end, id) => {
+    if (id === client.playerId) return;
+    const start = from.positions.get(id) ?? end;
+    positions.set(id, { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t });
+  });
+  return positions;
+};
+
+// The predicted world with other bombers moved to their interpolated spots.
+// `previous` is adjusted to match so the renderer's own tick interpolation
+// leaves them there.
+export const onlineView = (client: NetClient, previous: Map<string, Point>, now: number) => {
+  const state = client.state!;
+  const remote = remotePositions(client, now);
+  const shown = new Map(previous);
+  remote.forEach((pos, id) => shown.set(`p${id}`, pos));
+  return {
+    state: { ...state, players: state.players.map(p => remote.has(p.id) ? { ...p, ...remote.get(p.id) } : p) },
+    previous: shown
+  };
+};
@@ -0,0 +1,101 @@
+import { TileType, PowerUp, PowerUpType, CurseType, DropTable, GameState, Player } from '../types';
+import {
+  POWER_UP_SIZE,
+  MAX_BOMBS,
+  MAX_BLAST_RADIUS,
+  MAX_SPEED,
+  CURSE_DURATION_MS,
+  MINES_PER_PICKUP
+} from '../constants';
+import { Rng, nextFloat, nextInt } from './rng';
+import { rectIntersect, tileCenter } from './grid';
+
+const CURSES = [CurseType.Slow, CurseType.Reverse, CurseType.NoBombs, CurseType.Diarrhea];
+
+export const rollDrop = (rng: Rng, table: DropTable): PowerUpType | null => {
+  if (nextFloat(rng) >= table.chance) return null;
+  const entries = Object.entries(table.weights)
+    .map(([key, weight]) => [Number(key) as PowerUpType, weight ?? 0] as const)
+    .filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) return null;
+  let roll = nextFloat(rng) * total;
+  for (const [type, weight] of entries) {
+    roll -= weight;
+    if (roll < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+};
+
+// Buries items under soft walls according to the drop table.
+export const scatterPowerUps = (rng: Rng, map: TileType[][], table: DropTable, nextId: () => number): PowerUp[] => {
+  const powerUps: PowerUp[] = [];
+  map.forEach((row, r) => {
+    row.forEach((tile, c) => {
+      if (tile !== TileType.SoftWall) return;
+      const type = rollDrop(rng, table);
+      if (type !== null) powerUps.push({ id: nextId(), ...tileCenter(r, c), type, hidden: true });
+    });
+  });
+  return powerUps;
+};
+
+export const powerUpAt = (state: GameState, r: number, c: number) => {
+  const { x, y } = tileCenter(r, c);
+  return state.powerUps.find(p => p.x === x && p.y === y);
+};
+
+export const applyPowerUp = (state: GameState, player: Player, type: PowerUpType) => {
+  switch (type) {
+    case PowerUpType.ExtraBomb:
+      player.maxBombs = Math.min(MAX_BOMBS, player.maxBombs + 1);
+      break;
+    case PowerUpType.FireRange:
+      player.blastRadius = Math.min(MAX_BLAST_RADIUS, player.blastRadius + 1);
+      break;
+    case PowerUpType.Speed:
+      player.speed = Math.min(MAX_SPEED, player.speed + 1);
+      break;
+    case PowerUpType.Kick:
+      player.canKick = true;
+      break;
+    case PowerUpType.Remote:
+      player.remote = true;
+      break;
+    case PowerUpType.Pierce:
+      player.pierce = true;
+      break;
+    case PowerUpType.Mine:
+      player.mines += MINES_PER_PICKUP;
+      break;
+    case PowerUpType.Throw:
+      player.canThrow = true;
+      break;
+    case PowerUpType.Skull:
+      player.curse = CURSES[nextInt(state.rng, CURSES.length)];
+      player.curseTimer = CURSE_DURATION_MS;
+      break;
+  }
+};
+
+export const collectPowerUps = (state: GameState, player: Player) => {
+  const pRect = { x: player.x - player.width/2, y: player.y - player.height/2, w: player.width, h: player.height };
+  state.powerUps = state.powerUps.filter(item => {
+    if (item.hidden) return true;
+    const iRect = { x: item.x - POWER_UP_SIZE/2, y: item.y - POWER_UP_SIZE/2, w: POWER_UP_SIZE, h: POWER_UP_SIZE };
+    if (!rectIntersect(pRect, iRect)) return true;
+    applyPowerUp(state, player, item.type);
+    state.events.push({ type: 'pickup', playerId: player.id, item: item.type });
+    return false;
+  });
+};
+
+export const updateCurse = (player: Player, dt: number) => {
+  if (player.curse === null) return;
+  player.curseTimer -= dt;
+  if (player.curseTimer <= 0) {
+    player.curse = null;
+    player.curseTimer = 0;
+  }
+};
+
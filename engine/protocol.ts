@@ -0,0 +1,89 @@
+import { BattleSetup, ClientMessage, CpuDifficulty, PlayerInput, ServerMessage } from '../types';
+import { HIGH_SCORE_NAME_LENGTH, MAX_BOMBERS, NET_PROTOCOL_VERSION, ROOM_CODE_LENGTH } from '../constants';
+import { RulesFormatError, parseRules } from './rules';
+
+// Offered by clients when the socket opens; the server refuses anything else.
+export const NET_SUBPROTOCOL = `bunny-bomber.${NET_PROTOCOL_VERSION}`;
+
+export class ProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const INPUT_KEYS: (keyof PlayerInput)[] = ['up', 'down', 'left', 'right', 'bomb', 'detonate'];
+const SERVER_TYPES: ServerMessage['type'][] = ['welcome', 'room', 'state', 'error'];
+
+const readInput = (value: unknown): PlayerInput => {
+  if (!isObject(value) || !INPUT_KEYS.every(key => typeof value[key] === 'boolean')) throw new ProtocolError('Malformed input');
+  return { up: !!value.up, down: !!value.down, left: !!value.left, right: !!value.right, bomb: !!value.bomb, detonate: !!value.detonate };
+};
+
+// Arenas must be odd-sized so the pillar pattern closes the border.
+const readSetup = (value: unknown): BattleSetup => {
+  if (!isObject(value)) throw new ProtocolError('Malformed battle setup');
+  const { rivals, winsNeeded, roundTimeMs, rows, cols } = value;
+  if (!Array.isArray(rivals) || rivals.length >= MAX_BOMBERS || !rivals.every(r => isInteger(r, CpuDifficulty.Easy, CpuDifficulty.Hard))) {
+    throw new ProtocolError('Malformed CPU list');
+  }
+  if (!isInteger(winsNeeded, 1, 9) || !isInteger(roundTimeMs, 10000, 600000)) throw new ProtocolError('Malformed match rules');
+  if (!isInteger(rows, 7, 41) || !isInteger(cols, 7, 41) || rows % 2 === 0 || cols % 2 === 0) throw new ProtocolError('Malformed arena size');
+  try {
+    return { humans: 1, rivals, winsNeeded, roundTimeMs, rows, cols, rules: parseRules(value.rules) };
+  } catch (e) {
+    if (e instanceof RulesFormatError) throw new ProtocolError(`Malformed match rules: ${e.issues[0]}`);
+    throw e;
+  }
+};
+
+const readName = (value: unknown) => {
+  if (typeof value !== 'string') throw new ProtocolError('Malformed name');
+  return value.trim().slice(0, HIGH_SCORE_NAME_LENGTH) || '???';
+};
+
+export const encodeMessage = (message: ClientMessage | ServerMessage) => JSON.stringify(message);
+
+const parseObject = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProtocolError('Message is not valid JSON');
+  }
+  if (!isObject(data)) throw new ProtocolError('Message is not an object');
+  return data;
+};
+
+// Clients are untrusted, so everything the server acts on is checked here.
+export const parseClientMessage = (text: string): ClientMessage => {
+  const data = parseObject(text);
+  switch (data.type) {
+    case 'create':
+      return { type: 'create', name: readName(data.name), setup: readSetup(data.setup) };
+    case 'join':
+      if (typeof data.code !== 'string' || data.code.length !== ROOM_CODE_LENGTH) throw new ProtocolError('Malformed room code');
+      if (data.token !== null && typeof data.token !== 'string') throw new ProtocolError('Malformed token');
+      return { type: 'join', code: data.code.toUpperCase(), name: readName(data.name), token: data.token as string | null };
+    case 'input':
+      if (!isInteger(data.seq, 1, Number.MAX_SAFE_INTEGER)) throw new ProtocolError('Malformed input sequence');
+      return { type: 'input', seq: data.seq, input: readInput(data.input) };
+    case 'start':
+    case 'nextRound':
+    case 'leave':
+      return { type: data.type };
+    default:
+      throw new ProtocolError(`Unknown message type ${String(data.type)}`);
+  }
+};
+
+// The server is trusted to send well-formed bodies; only the type is checked.
+export const parseServerMessage = (text: string): ServerMessage => {
+  const data = parseObject(text);
+  if (!SERVER_TYPES.includes(data.type as ServerMessage['type'])) throw new ProtocolError(`Unknown message type ${String(data.type)}`);
+  return data as unknown as ServerMessage;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { GameOptions, LevelTheme, PlayerInput } from '../types';
+import { TICK_MS } from '../constants';
+import { createRng, nextFloat, nextInt } from './rng';
+import { NO_INPUT, PLAYER_ID, createGame, step } from './simulation';
+import {
+  ReplayFormatError, advance, createCursor, decodeInputLog, decodeRecording, encodeInputLog, encodeRecording,
+  finishRecording, isFinished, recordTick, seek, startRecording
+} from './replay';
+
+const record = (seed: number, options: Partial<GameOptions>, ticks: number) => {
+  const rng = createRng(seed);
+  const state = createGame(seed, options);
+  const recorder = startRecording(seed, options, LevelTheme.Meadow);
+  let held: Partial<PlayerInput> = {};
+  for (let i = 0; i < ticks; i++) {
+    if (nextFloat(rng) < 0.1) held = [{}, { up: true }, { down: true }, { left: true }, { right: true }][nextInt(rng, 5)];
+    const inputs = { [PLAYER_ID]: { ...NO_INPUT, ...held, bomb: nextFloat(rng) < 0.03 } };
+    recordTick(recorder, state, inputs);
+    step(state, inputs, TICK_MS);
+  }
+  return { state, recording: finishRecording(recorder) };
+};
+
+describe('input log', () => {
+  it('round-trips and compresses held inputs', () => {
+    const masks = [0, 0, 0, 1, 1, 16, 0, ...Array(120).fill(8), 63];
+    const log = encodeInputLog(masks);
+    expect(decodeInputLog(log)).toEqual(masks);
+    expect(log.length).toBeLessThan(15);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => decodeInputLog('AB*C')).toThrow(ReplayFormatError);
+  });
+});
+
+describe('recordings', () => {
+  it('play back to the same state as the original game', () => {
+    const { state, recording } = record(11, { lives: 3 }, 1500);
+    const cursor = createCursor(decodeRecording(encodeRecording(recording)));
+    while (advance(cursor));
+    expect(isFinished(cursor)).toBe(true);
+    expect(cursor.state).toEqual(state);
+  });
+
+  it('seek back and forth to the states played through', () => {
+    const { recording } = record(12, { lives: 3 }, 1000);
+    const cursor = createCursor(recording);
+    seek(cursor, 700);
+    const at700 = structuredClone(cursor.state);
+    seek(cursor, 100);
+    expect(cursor.state.tick).toBe(100);
+    seek(cursor, 700);
+    expect(cursor.state).toEqual(at700);
+  });
+
+  it('reject codes that are not replays or from another version', () => {
+    const { recording } = record(13, {}, 10);
+    expect(() => decodeRecording('not a replay')).toThrow(ReplayFormatError);
+    expect(() => decodeRecording(encodeRecording({ ...recording, version: 0 }))).toThrow(/version/);
+    expect(() => decodeRecording(encodeRecording({ ...recording, inputs: { [PLAYER_ID]: '!' } }))).toThrow(ReplayFormatError);
+  });
+});
@@ -0,0 +1,176 @@
+import { GameOptions, GameState, GameStatus, LevelTheme, PlayerInput, PlayerInputs, Recording } from '../types';
+import { TICK_MS } from '../constants';
+import { NO_INPUT, createGame, step } from './simulation';
+
+export const REPLAY_VERSION = 2;
+
+const CHECKPOINT_EVERY = 300; // Ticks between saved states while scrubbing
+
+// Input log format: one character per distinct input (a bitmask in a URL-safe
+// base64 alphabet), followed by a decimal repeat count when it lasts longer
+// than one tick. Held directions compress to a handful of characters.
+const INPUT_BITS: (keyof PlayerInput)[] = ['up', 'down', 'left', 'right', 'bomb', 'detonate'];
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+const toMask = (input: PlayerInput) => INPUT_BITS.reduce((mask, key, i) => input[key] ? mask | (1 << i) : mask, 0);
+
+const fromMask = (mask: number): PlayerInput => {
+  const input = { ...NO_INPUT };
+  INPUT_BITS.forEach((key, i) => { input[key] = (mask & (1 << i)) !== 0; });
+  return input;
+};
+
+export const encodeInputLog = (masks: number[]) => {
+  let out = '';
+  for (let i = 0; i < masks.length;) {
+    let run = 1;
+    while (masks[i + run] === masks[i]) run++;
+    out += ALPHABET[masks[i]] + (run > 1 ? run : '');
+    i += run;
+  }
+  return out;
+};
+
+export const decodeInputLog = (log: string): number[] => {
+  const masks: number[] = [];
+  const runs = log.match(/[A-Za-z0-9\-_]\d*/g) ?? [];
+  if (runs.join('') !== log) throw new ReplayFormatError('Input log contains unexpected characters');
+  for (const run of runs) {
+    const mask = ALPHABET.indexOf(run[0]);
+    const count = run.length > 1 ? Number(run.slice(1)) : 1;
+    for (let i = 0; i < count; i++) masks.push(mask);
+  }
+  return masks;
+};
+
+// --- Recording ---
+
+export interface Recorder {
+  seed: number;
+  options: Partial<GameOptions>;
+  theme: LevelTheme;
+  masks: Record<string, number[]>;
+  ticks: number;
+}
+
+export const startRecording = (seed: number, options: Partial<GameOptions>, theme: LevelTheme): Recorder => ({
+  seed,
+  options,
+  theme,
+  masks: {},
+  ticks: 0
+});
+
+// Call once per step, with the inputs that step was given.
+export const recordTick = (recorder: Recorder, state: GameState, inputs: PlayerInputs) => {
+  state.players.forEach(p => {
+    if (p.bot) return;
+    const log = recorder.masks[p.id] ??= Array(recorder.ticks).fill(0);
+    log.push(toMask(inputs[p.id] ?? NO_INPUT));
+  });
+  recorder.ticks++;
+};
+
+export const finishRecording = (recorder: Recorder): Recording => ({
+  version: REPLAY_VERSION,
+  seed: recorder.seed,
+  options: recorder.options,
+  theme: recorder.theme,
+  ticks: recorder.ticks,
+  inputs: Object.fromEntries(Object.entries(recorder.masks).map(([id, masks]) => [id, encodeInputLog(masks)]))
+});
+
+// Picks a recording back up where it stopped, e.g. after resuming a saved game.
+export const resumeRecording = (recording: Recording): Recorder => ({
+  seed: recording.seed,
+  options: recording.options,
+  theme: recording.theme,
+  masks: Object.fromEntries(Object.entries(recording.inputs).map(([id, log]) => [id, decodeInputLog(log)])),
+  ticks: recording.ticks
+});
+
+// --- Sharing ---
+
+// Base64url of the UTF-8 JSON, safe to paste into a URL fragment.
+export const encodeRecording = (recording: Recording) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(recording));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeRecording = (code: string): Recording => {
+  let data: unknown;
+  try {
+    const binary = atob(code.trim().replace(/-/g, '+').replace(/_/g, '/'));
+    data = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0))));
+  } catch {
+    throw new ReplayFormatError('Not a replay code');
+  }
+  const rec = data as Recording;
+  if (!rec || typeof rec !== 'object') throw new ReplayFormatError('Not a replay code');
+  if (rec.version !== REPLAY_VERSION) throw new ReplayFormatError(`Unsupported replay version ${rec.version}`);
+  if (typeof rec.seed !== 'number' || typeof rec.ticks !== 'number' || typeof rec.options !== 'object' || typeof rec.inputs !== 'object') {
+    throw new ReplayFormatError('Replay is missing required fields');
+  }
+  Object.values(rec.inputs).forEach(log => {
+    if (typeof log !== 'string') throw new ReplayFormatError('Replay input log is malformed');
+    decodeInputLog(log);
+  });
+  return rec;
+};
+
+// --- Playback ---
+
+export interface ReplayCursor {
+  recording: Recording;
+  logs: Record<string, number[]>;
+  state: GameState;
+  checkpoints: GameState[]; // State at every CHECKPOINT_EVERY-th tick seen so far
+}
+
+export const createCursor = (recording: Recording): ReplayCursor => {
+  const state = createGame(recording.seed, recording.options);
+  return {
+    recording,
+    logs: Object.fromEntries(Object.entries(recording.inputs).map(([id, log]) => [id, decodeInputLog(log)])),
+    state,
+    checkpoints: [structuredClone(state)]
+  };
+};
+
+export const isFinished = (cursor: ReplayCursor) => {
+  return cursor.state.tick >= cursor.recording.ticks || cursor.state.status !== GameStatus.Playing;
+};
+
+// Plays one recorded tick. Returns false at the end of the recording.
+export const advance = (cursor: ReplayCursor) => {
+  if (isFinished(cursor)) return false;
+  const tick = cursor.state.tick;
+  const inputs: PlayerInputs = {};
+  Object.entries(cursor.logs).forEach(([id, masks]) => { inputs[id] = fromMask(masks[tick] ?? 0); });
+  step(cursor.state, inputs, TICK_MS);
+  const next = cursor.state.tick;
+  if (next % CHECKPOINT_EVERY === 0 && !cursor.checkpoints[next / CHECKPOINT_EVERY]) {
+    cursor.checkpoints[next / CHECKPOINT_EVERY] = structuredClone(cursor.state);
+  }
+  return true;
+};
+
+// Jumps to `tick` by re-simulating from the nearest earlier checkpoint.
+export const seek = (cursor: ReplayCursor, tick: number) => {
+  const target = Math.max(0, Math.min(tick, cursor.recording.ticks));
+  let index = Math.min(Math.floor(target / CHECKPOINT_EVERY), cursor.checkpoints.length - 1);
+  while (index > 0 && !cursor.checkpoints[index]) index--;
+  if (target < cursor.state.tick || index * CHECKPOINT_EVERY > cursor.state.tick) {
+    cursor.state = structuredClone(cursor.checkpoints[index]);
+  }
+  while (cursor.state.tick < target && advance(cursor));
+};
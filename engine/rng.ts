@@ -0,0 +1,19 @@
+// Seedable PRNG (mulberry32). State is a plain object so it can be cloned,
+// serialized and replayed alongside the rest of the game state.
+export interface Rng {
+  state: number;
+}
+
+export const createRng = (seed: number): Rng => ({ state: seed >>> 0 });
+
+export const nextFloat = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const nextInt = (rng: Rng, max: number): number => Math.floor(nextFloat(rng) * max);
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[nextInt(rng, items.length)];
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { GameMode, RulesPreset } from '../types';
+import { CLASSIC_RULES, RULE_PRESETS, TICK_MS } from '../constants';
+import { RulesFormatError, checkRules, decodeRules, encodeRules, parseRules, presetOf } from './rules';
+import { NO_INPUT, PLAYER_ID, createGame, step } from './simulation';
+import { getGridPos } from './grid';
+import { parseLevel, validateLayout } from './levels';
+
+describe('checkRules', () => {
+  it('passes every preset', () => {
+    Object.values(RULE_PRESETS).forEach(rules => expect(checkRules(rules)).toEqual([]));
+  });
+
+  it('names each field that is missing, out of range or fractional', () => {
+    const { bombTimerMs: _, ...rest } = CLASSIC_RULES;
+    expect(checkRules(rest)).toEqual(['Bomb fuse (ms) must be a number']);
+    expect(checkRules({ ...CLASSIC_RULES, enemyCount: 0, softWallDensity: 2 })).toEqual([
+      'Soft walls must be between 0 and 0.8',
+      'Enemies must be between 1 and 12'
+    ]);
+    expect(checkRules({ ...CLASSIC_RULES, startBombs: 1.5 })).toEqual(['Starting bombs must be a whole number']);
+    expect(checkRules({ ...CLASSIC_RULES, hitboxSize: '30' })).toEqual(['Hitbox (px) must be a number']);
+  });
+});
+
+describe('parseRules', () => {
+  it('keeps only the rule fields', () => {
+    expect(parseRules({ ...CLASSIC_RULES, cheat: true })).toEqual(CLASSIC_RULES);
+  });
+
+  it('rejects anything else with the list of issues', () => {
+    expect(() => parseRules(null)).toThrow(RulesFormatError);
+    expect(() => parseRules({ ...CLASSIC_RULES, bombTimerMs: -1 })).toThrow('Bomb fuse (ms) must be between 1000 and 6000');
+  });
+});
+
+describe('rule links', () => {
+  it('name the presets and spell out custom rules', () => {
+    expect(encodeRules(RULE_PRESETS[RulesPreset.Chaos])).toBe('rules=chaos');
+    const custom = { ...CLASSIC_RULES, bombTimerMs: 2500, softWallDensity: 0.45 };
+    expect(presetOf(custom)).toBe(RulesPreset.Custom);
+    expect(encodeRules(custom)).toBe('rules=custom&bombTimerMs=2500&softWallDensity=0.45');
+  });
+
+  it('round trip every preset and custom set', () => {
+    const custom = { ...CLASSIC_RULES, enemyCount: 9, startSpeed: 5.5 };
+    [...Object.values(RULE_PRESETS), custom].forEach(rules => expect(decodeRules(`?${encodeRules(rules)}`)).toEqual(rules));
+  });
+
+  it('ignore queries without rules and reject bad ones', () => {
+    expect(decodeRules('?level=3')).toBeNull();
+    expect(() => decodeRules('?rules=brutal')).toThrow(/Unknown rules preset/);
+    expect(() => decodeRules('?rules=custom&enemyCount=99')).toThrow(/Enemies must be between/);
+    expect(() => decodeRules('?rules=custom&bombTimerMs=')).toThrow(/Bomb fuse \(ms\) must be a number/);
+  });
+});
+
+describe('hand-made levels', () => {
+  it('keep enemies out of the widest safe zone the rules allow', () => {
+    const corridor = (enemyCol: number) => {
+      const row = [...'#P.........D#'];
+      row[enemyCol] = 'E';
+      return parseLevel(['#############', row.join(''), '#############'].join('\n')).layout;
+    };
+    expect(validateLayout(corridor(7))).toEqual([
+      'Enemy at row 2, column 8 is inside the 6-tile safe zone around the player spawn, the widest the rules allow'
+    ]);
+    expect(validateLayout(corridor(8))).toEqual([]);
+    expect(validateLayout(corridor(7), { safeRadius: CLASSIC_RULES.spawnSafeRadius })).toEqual([]);
+  });
+});
+
+describe('games played by the rules', () => {
+  it('use the fuse, loadout, hitbox and enemy count', () => {
+    const rules = RULE_PRESETS[RulesPreset.Chaos];
+    const state = createGame(3, { rules });
+    const player = state.players[0];
+    expect(state.enemies).toHaveLength(rules.enemyCount);
+    expect([player.maxBombs, player.blastRadius, player.speed, player.width]).toEqual([rules.startBombs, rules.startRange, rules.startSpeed, rules.hitboxSize]);
+    const spawn = getGridPos(player.x, player.y);
+    state.enemies.forEach(e => {
+      const pos = getGridPos(e.x, e.y);
+      expect(Math.max(Math.abs(pos.r - spawn.r), Math.abs(pos.c - spawn.c))).toBeGreaterThan(rules.spawnSafeRadius);
+    });
+
+    step(state, { [PLAYER_ID]: { ...NO_INPUT, bomb: true } }, TICK_MS);
+    const [bomb] = state.bombs;
+    expect(bomb.timer).toBeCloseTo(rules.bombTimerMs - TICK_MS);
+  });
+
+  it('keep the flames up for the explosion time', () => {
+    const rules = { ...CLASSIC_RULES, explosionMs: 1000 };
+    const state = createGame(1, { mode: GameMode.Battle, rules, enemies: [], humans: 2, timeLimitMs: 60000 });
+    step(state, { [PLAYER_ID]: { ...NO_INPUT, bomb: true } }, TICK_MS);
+    state.bombs[0].timer = TICK_MS;
+    step(state, {}, TICK_MS);
+    expect(state.explosions).toHaveLength(1);
+    expect(state.explosions[0].timer).toBeGreaterThan(CLASSIC_RULES.explosionMs);
+    expect(state.explosions[0].timer).toBeLessThanOrEqual(rules.explosionMs);
+  });
+});
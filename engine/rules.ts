@@ -0,0 +1,85 @@
+import { MatchRules, RulesPreset } from '../types';
+import { CLASSIC_RULES, RULE_LIMITS, RULE_PRESETS } from '../constants';
+
+// Rules in a link: `?rules=chaos`, or `?rules=custom&bombTimerMs=2500&...`
+// with every field that differs from Classic.
+
+export const RULE_KEYS = Object.keys(RULE_LIMITS) as (keyof MatchRules)[];
+
+export const PRESETS = [RulesPreset.Easy, RulesPreset.Classic, RulesPreset.Chaos, RulesPreset.Custom];
+
+export const PRESET_NAMES: Record<RulesPreset, string> = {
+  [RulesPreset.Easy]: 'easy',
+  [RulesPreset.Classic]: 'classic',
+  [RulesPreset.Chaos]: 'chaos',
+  [RulesPreset.Custom]: 'custom',
+};
+
+export class RulesFormatError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(issues.join('\n'));
+    this.name = 'RulesFormatError';
+    this.issues = issues;
+  }
+}
+
+// Every field that is missing, not a number or out of range. Fields counted
+// in whole units must be whole.
+export const checkRules = (rules: { [K in keyof MatchRules]?: unknown }): string[] => RULE_KEYS.flatMap(key => {
+  const { label, min, max, step } = RULE_LIMITS[key];
+  const value = rules[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return [`${label} must be a number`];
+  if (value < min || value > max) return [`${label} must be between ${min} and ${max}`];
+  if (Number.isInteger(step) && !Number.isInteger(value)) return [`${label} must be a whole number`];
+  return [];
+});
+
+// Copies just the rule fields out of untrusted data, such as a network
+// message or local storage.
+export const parseRules = (value: unknown): MatchRules => {
+  const source: Record<string, unknown> = typeof value === 'object' && value !== null ? { ...value } : {};
+  const issues = checkRules(source);
+  if (issues.length > 0) throw new RulesFormatError(issues);
+  const rules = { ...CLASSIC_RULES };
+  RULE_KEYS.forEach(key => { rules[key] = source[key] as number; });
+  return rules;
+};
+
+export const rulesOf = (preset: RulesPreset, custom: MatchRules): MatchRules =>
+  preset === RulesPreset.Custom ? custom : RULE_PRESETS[preset];
+
+export const presetOf = (rules: MatchRules): RulesPreset => {
+  const named = PRESETS.filter(preset => preset !== RulesPreset.Custom) as Exclude<RulesPreset, RulesPreset.Custom>[];
+  return named.find(preset => RULE_KEYS.every(key => RULE_PRESETS[preset][key] === rules[key])) ?? RulesPreset.Custom;
+};
+
+export const encodeRules = (rules: MatchRules): string => {
+  const preset = presetOf(rules);
+  const params = new URLSearchParams({ rules: PRESET_NAMES[preset] });
+  if (preset === RulesPreset.Custom) {
+    RULE_KEYS.forEach(key => {
+      if (rules[key] !== CLASSIC_RULES[key]) params.set(key, String(rules[key]));
+    });
+  }
+  return params.toString();
+};
+
+// Null when the query carries no rules at all.
+export const decodeRules = (query: string): MatchRules | null => {
+  const params = new URLSearchParams(query);
+  const name = params.get('rules');
+  if (name === null) return null;
+  const preset = PRESETS.find(p => PRESET_NAMES[p] === name.toLowerCase());
+  if (preset === undefined) throw new RulesFormatError([`Unknown rules preset "${name}"`]);
+  if (preset !== RulesPreset.Custom) return RULE_PRESETS[preset];
+  const rules = { ...CLASSIC_RULES };
+  RULE_KEYS.forEach(key => {
+    const value = params.get(key);
+    if (value !== null) rules[key] = value.trim() === '' ? NaN : Number(value);
+  });
+  const issues = checkRules(rules);
+  if (issues.length > 0) throw new RulesFormatError(issues);
+  return rules;
+};
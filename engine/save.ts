@@ -0,0 +1,110 @@
+import { GameStatus, SaveGame } from '../types';
+import { CLASSIC_RULES, GRID_COLS, GRID_ROWS } from '../constants';
+
+// Bump when GameState or SaveGame changes shape, and teach migrate() to
+// upgrade the previous version.
+export const SAVE_VERSION = 4;
+
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFormatError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+const isPositioned = (value: unknown) => isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+// Saves written by older builds are upgraded one version at a time; anything
+// that cannot be upgraded is rejected.
+const migrate = (data: Record<string, unknown>): Record<string, unknown> => {
+  switch (data.version) {
+    case 1: {
+      // Battles gained a choice of arena size; older ones used the default
+      const match = data.match;
+      const upgraded = isObject(match) && isObject(match.setup)
+        ? { ...match, setup: { rows: GRID_ROWS, cols: GRID_COLS, ...match.setup } }
+        : match;
+      return migrate({ ...data, version: 2, match: upgraded });
+    }
+    case 2: {
+      // Mines, throwing, ice and thrown bombs added fields to bombers, bombs
+      // and the campaign loadout
+      const state = data.state;
+      const upgradeList = (list: unknown, fields: Record<string, unknown>) =>
+        Array.isArray(list) ? list.map(item => isObject(item) ? { ...fields, ...item } : item) : list;
+      const loadout = { canThrow: false, mines: 0 };
+      const campaign = data.campaign;
+      return migrate({
+        ...data,
+        version: 3,
+        state: isObject(state) ? {
+          ...state,
+          players: upgradeList(state.players, { ...loadout, facing: { x: 0, y: 1 }, drift: null }),
+          bombs: upgradeList(state.bombs, { mine: false, flight: null })
+        } : state,
+        campaign: isObject(campaign) && isObject(campaign.loadout) ? { ...campaign, loadout: { ...loadout, ...campaign.loadout } } : campaign
+      });
+    }
+    case 3: {
+      // Match rules became configurable; older games played the classic ones
+      const { state, campaign, match } = data;
+      return migrate({
+        ...data,
+        version: 4,
+        state: isObject(state) ? { rules: CLASSIC_RULES, ...state } : state,
+        campaign: isObject(campaign) ? { rules: CLASSIC_RULES, ...campaign } : campaign,
+        match: isObject(match) && isObject(match.setup) ? { ...match, setup: { rules: CLASSIC_RULES, ...match.setup } } : match
+      });
+    }
+    case SAVE_VERSION:
+      return data;
+    default:
+      throw new SaveFormatError(`Unsupported save version ${String(data.version)}`);
+  }
+};
+
+// Checks enough of the snapshot that the engine can step it without
+// tripping over missing fields.
+const validate = (data: Record<string, unknown>): SaveGame => {
+  const state = data.state;
+  if (!isObject(state)) throw new SaveFormatError('Save has no game state');
+  const map = state.map;
+  if (!Array.isArray(map) || map.length === 0 || !map.every(row => Array.isArray(row) && row.length === map[0].length && row.every(isNumber))) {
+    throw new SaveFormatError('Save has a malformed map');
+  }
+  if (!isObject(state.rng) || !isNumber(state.rng.state) || !isNumber(state.tick) || !isNumber(state.nextId)) {
+    throw new SaveFormatError('Save is missing simulation counters');
+  }
+  if (!isNumber(state.status) || !(state.status in GameStatus)) throw new SaveFormatError('Save has an unknown status');
+  const lists = ['players', 'bombs', 'enemies', 'powerUps'] as const;
+  for (const key of lists) {
+    const list = state[key];
+    if (!Array.isArray(list) || !list.every(isPositioned)) throw new SaveFormatError(`Save has malformed ${key}`);
+  }
+  if (!Array.isArray(state.explosions) || (state.players as unknown[]).length === 0) {
+    throw new SaveFormatError('Save has malformed explosions or players');
+  }
+  if (data.campaign !== null && !(isObject(data.campaign) && Array.isArray(data.campaign.levels) && isNumber(data.campaign.stageIndex))) {
+    throw new SaveFormatError('Save has a malformed campaign');
+  }
+  if (data.match !== null && !(isObject(data.match) && isObject(data.match.setup) && isObject(data.match.wins))) {
+    throw new SaveFormatError('Save has a malformed match');
+  }
+  if ((data.campaign === null) === (data.match === null)) throw new SaveFormatError('Save must belong to a campaign or a match');
+  return data as unknown as SaveGame;
+};
+
+export const serializeSave = (save: SaveGame) => JSON.stringify(save);
+
+export const parseSave = (text: string): SaveGame => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SaveFormatError('Save is not valid JSON');
+  }
+  if (!isObject(data)) throw new SaveFormatError('Save is not an object');
+  return validate(migrate(data));
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CpuDifficulty, GameMode, GameOptions, GameState, GameStatus, PlayerInput, RulesPreset } from '../types';
+import { ROUND_TIME_MS, RULE_PRESETS, TICK_MS, TILE_SIZE } from '../constants';
+import { createRng, nextFloat, nextInt } from './rng';
+import { NO_INPUT, PLAYER_ID, createGame, step } from './simulation';
+import { isFloor } from './grid';
+
+// Headless runs of whole games, driven by seeded random input, checking that
+// the rules hold on every step.
+
+const TICKS = 3000;
+const TIMEOUT_MS = 60000; // Whole games take a few seconds each on a slow machine
+
+const MOVES: Partial<PlayerInput>[] = [{}, { up: true }, { down: true }, { left: true }, { right: true }];
+
+// Holds a direction for a while, as a player would, and now and then drops a
+// bomb.
+const createMasher = (seed: number) => {
+  const rng = createRng(seed);
+  let held: Partial<PlayerInput> = {};
+  return (): PlayerInput => {
+    if (nextFloat(rng) < 0.1) held = MOVES[nextInt(rng, MOVES.length)];
+    return { ...NO_INPUT, ...held, bomb: nextFloat(rng) < 0.03 };
+  };
+};
+
+const play = (state: GameState, input: () => PlayerInput, ticks: number, check: (state: GameState) => void = () => {}) => {
+  for (let i = 0; i < ticks && state.status === GameStatus.Playing; i++) {
+    step(state, { [PLAYER_ID]: input() }, TICK_MS);
+    check(state);
+  }
+  return state;
+};
+
+const checkRules = (state: GameState) => {
+  const ids = [...state.bombs, ...state.enemies, ...state.powerUps, ...state.explosions].map(e => e.id);
+  expect(new Set(ids).size).toBe(ids.length);
+  expect(Math.max(0, ...ids)).toBeLessThan(state.nextId);
+
+  state.players.forEach(p => {
+    const own = state.bombs.filter(b => b.ownerId === p.id && !b.mine).length;
+    expect(p.bombCount).toBe(own);
+    expect(p.bombCount).toBeLessThanOrEqual(p.maxBombs);
+    // No part of a live bomber's hitbox is ever inside a wall, bar the ones
+    // sudden death drops on them
+    if (!p.alive || state.suddenDeath) return;
+    const corners = [[-1, -1], [-1, 1], [1, -1], [1, 1]].map(([sx, sy]) => ({
+      r: Math.floor((p.y + sy * (p.height / 2 - 0.01)) / TILE_SIZE),
+      c: Math.floor((p.x + sx * (p.width / 2 - 0.01)) / TILE_SIZE)
+    }));
+    corners.forEach(({ r, c }) => expect(isFloor(state.map[r][c])).toBe(true));
+  });
+  state.enemies.forEach(e => {
+    expect(isFloor(state.map[Math.floor(e.y / TILE_SIZE)][Math.floor(e.x / TILE_SIZE)])).toBe(true);
+  });
+};
+
+const SEEDS = [1, 2, 3, 5, 8, 13, 21, 34];
+
+describe('seeded adventures', () => {
+  it.each(SEEDS)('keep to the rules for %i', seed => {
+    const state = play(createGame(seed, { timeLimitMs: TICKS * TICK_MS }), createMasher(seed), TICKS, checkRules);
+    expect(state.tick).toBeGreaterThan(0);
+    if (state.status === GameStatus.Playing) expect(state.tick).toBe(TICKS);
+  }, TIMEOUT_MS);
+
+  it('replay identically from the same seed and input', () => {
+    const options: Partial<GameOptions> = { exit: true, lives: 3 };
+    const first = play(createGame(99, options), createMasher(7), TICKS);
+    const second = play(createGame(99, options), createMasher(7), TICKS);
+    expect(second).toEqual(first);
+    const other = play(createGame(100, options), createMasher(7), TICKS);
+    expect(other).not.toEqual(first);
+  }, TIMEOUT_MS);
+
+  it.each([RulesPreset.Easy, RulesPreset.Chaos])('keep to the rules under preset %i', preset => {
+    const state = createGame(11, { timeLimitMs: TICKS * TICK_MS, rules: RULE_PRESETS[preset] });
+    play(state, createMasher(11), TICKS, checkRules);
+    expect(state.tick).toBeGreaterThan(0);
+  }, TIMEOUT_MS);
+});
+
+describe('CPU battles', () => {
+  const battle = (seed: number) => createGame(seed, {
+    mode: GameMode.Battle,
+    rivals: [CpuDifficulty.Easy, CpuDifficulty.Normal, CpuDifficulty.Hard],
+    enemies: [],
+    timeLimitMs: ROUND_TIME_MS
+  });
+
+  it.each(SEEDS.slice(0, 4))('always end in a win or a draw (seed %i)', seed => {
+    const state = battle(seed);
+    // Long enough for the clock and the sudden-death walls to run out
+    const limit = ROUND_TIME_MS / TICK_MS + state.map.length * state.map[0].length * 20;
+    play(state, () => NO_INPUT, limit, checkRules);
+    expect(state.status).toBe(GameStatus.RoundOver);
+    const alive = state.players.filter(p => p.alive);
+    expect(alive.length).toBeLessThanOrEqual(1);
+    expect(state.winnerId).toBe(alive[0]?.id ?? null);
+  }, TIMEOUT_MS);
+
+  it('are decided by the seed alone', () => {
+    const run = (seed: number) => play(battle(seed), () => NO_INPUT, 2000);
+    expect(run(4)).toEqual(run(4));
+  }, TIMEOUT_MS);
+});
+
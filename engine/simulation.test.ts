@@ -0,0 +1,363 @@
+import { describe, expect, it } from 'vitest';
+import { Bomb, GameMode, GameOptions, GameState, GameStatus, PlayerInput, Point, TileType } from '../types';
+import { CHAIN_BONUS_POINTS, CLASSIC_RULES, RESPAWN_DELAY_MS, SOFT_WALL_POINTS, TICK_MS, TILE_SIZE } from '../constants';
+import { NO_INPUT, PLAYER_ID, createGame, explodeBomb, humanId, step } from './simulation';
+import { parseLevel } from './levels';
+import { getGridPos, tileCenter } from './grid';
+
+const stage = (grid: string[], overrides: Partial<GameOptions> = {}) => {
+  const { layout } = parseLevel(grid.join('\n'));
+  return createGame(1, { layout, mode: GameMode.Adventure, ...overrides });
+};
+
+// An adventure stage with no enemies left is won straight away, so tests
+// that need the clock to keep running hold the enemies still instead.
+const freeze = (state: GameState) => {
+  state.enemies.forEach(e => { e.speed = 0; });
+  return state;
+};
+
+const press = (input: Partial<PlayerInput> = {}): PlayerInput => ({ ...NO_INPUT, ...input });
+
+const run = (state: GameState, input: PlayerInput, ticks: number) => {
+  for (let i = 0; i < ticks; i++) step(state, { [PLAYER_ID]: input }, TICK_MS);
+};
+
+const tileOf = (p: Point) => getGridPos(p.x, p.y);
+
+const addBomb = (state: GameState, r: number, c: number, props: Partial<Bomb> = {}): Bomb => {
+  const bomb: Bomb = {
+    id: state.nextId++, ...tileCenter(r, c), timer: CLASSIC_RULES.bombTimerMs, range: 2, ownerId: PLAYER_ID,
+    remote: false, pierce: false, mine: false, sliding: null, flight: null, ...props
+  };
+  state.bombs.push(bomb);
+  return bomb;
+};
+
+const litTiles = (state: GameState) => state.explosions.flatMap(e => e.particles.map(p => `${p.y},${p.x}`)).sort();
+
+const count = (state: GameState, type: string) => state.events.filter(e => e.type === type).length;
+
+describe('movement', () => {
+  const ROOM = [
+    '#########',
+    '#P......#',
+    '#.#.#.#.#',
+    '#......E#',
+    '#########',
+  ];
+
+  it('moves a bomber by its speed each step', () => {
+    const state = freeze(stage(ROOM));
+    const player = state.players[0];
+    run(state, press({ right: true }), 3);
+    expect(player.x).toBe(tileCenter(1, 1).x + player.speed * 3);
+    expect(player.y).toBe(tileCenter(1, 1).y);
+  });
+
+  it('stops a bomber flush against a wall', () => {
+    const state = freeze(stage(ROOM));
+    const player = state.players[0];
+    run(state, press({ up: true }), 10);
+    expect(player.y - CLASSIC_RULES.hitboxSize / 2).toBeGreaterThanOrEqual(TILE_SIZE);
+    expect(player.y - CLASSIC_RULES.hitboxSize / 2 - player.speed).toBeLessThan(TILE_SIZE);
+    expect(player.x).toBe(tileCenter(1, 1).x);
+  });
+
+  it('slides a bomber round the corner of a pillar', () => {
+    const state = freeze(stage(ROOM));
+    const player = state.players[0];
+    player.x += 10;
+    run(state, press({ down: true }), 12);
+    expect(tileOf(player)).toEqual({ r: 2, c: 1 });
+    expect(player.x).toBeLessThan(tileCenter(1, 1).x + 10);
+  });
+
+  it('does not walk onto a bomb it has just left', () => {
+    const state = freeze(stage(ROOM));
+    const player = state.players[0];
+    run(state, press({ bomb: true }), 1);
+    run(state, press({ right: true }), 12);
+    run(state, press({ left: true }), 12);
+    expect(player.x - CLASSIC_RULES.hitboxSize / 2).toBeGreaterThanOrEqual(tileCenter(1, 1).x + TILE_SIZE / 2);
+  });
+});
+
+describe('explodeBomb', () => {
+  const YARD = [
+    '#########',
+    '#P..+...#',
+    '#.#.#.#.#',
+    '#...%..E#',
+    '#########',
+  ];
+
+  it('reaches as far as the range and no further', () => {
+    const state = stage(YARD);
+    explodeBomb(state, addBomb(state, 3, 1, { range: 2 }));
+    expect(litTiles(state)).toEqual(['1,1', '2,1', '3,1', '3,2', '3,3']);
+  });
+
+  it('stops at hard walls and at the first soft wall, which it breaks', () => {
+    const state = stage(YARD);
+    explodeBomb(state, addBomb(state, 1, 6, { range: 3 }));
+    expect(litTiles(state)).toEqual(['1,4', '1,5', '1,6', '1,7']);
+    expect(state.map[1][4]).toBe(TileType.Empty);
+    expect(state.map[2][6]).toBe(TileType.HardWall);
+    expect(state.players[0].score).toBe(SOFT_WALL_POINTS);
+  });
+
+  it('lets piercing flames through soft walls', () => {
+    const state = stage(YARD);
+    explodeBomb(state, addBomb(state, 1, 2, { range: 3, pierce: true }));
+    expect(litTiles(state)).toEqual(['1,1', '1,2', '1,3', '1,4', '1,5']);
+    expect(state.map[1][4]).toBe(TileType.Empty);
+  });
+
+  it('needs two blasts to clear a tough wall, pierce or not', () => {
+    const state = stage(YARD);
+    explodeBomb(state, addBomb(state, 3, 2, { range: 3, pierce: true }));
+    expect(litTiles(state)).not.toContain('3,5');
+    expect(state.map[3][4]).toBe(TileType.SoftWall);
+    explodeBomb(state, addBomb(state, 3, 2, { range: 3 }));
+    expect(state.map[3][4]).toBe(TileType.Empty);
+  });
+
+  it('sets off bombs in its path as one chain', () => {
+    const state = stage(YARD);
+    const first = addBomb(state, 1, 1, { range: 2 });
+    const second = addBomb(state, 3, 1, { range: 2 });
+    explodeBomb(state, first);
+    expect(state.bombs).toHaveLength(0);
+    expect(state.explosions.map(e => e.bombId)).toEqual([first.id, second.id]);
+    expect(state.explosions[1].triggeredBy).toBe(first.id);
+    expect(state.explosions.every(e => e.chainId === first.id)).toBe(true);
+    expect(state.events).toEqual([{ type: 'explosion', bombs: 2 }]);
+  });
+
+  it('breaks and scores a wall once when several blasts of a chain reach it', () => {
+    const state = stage([
+      '#######',
+      '#P.+..#',
+      '#.#.#.#',
+      '#....E#',
+      '#######',
+    ]);
+    addBomb(state, 3, 5, { range: 2 });
+    addBomb(state, 1, 5, { range: 2 });
+    explodeBomb(state, addBomb(state, 3, 3, { range: 2 }));
+    expect(state.explosions).toHaveLength(3);
+    expect(state.map[1][3]).toBe(TileType.Empty);
+    expect(state.players[0].score).toBe(SOFT_WALL_POINTS + 2 * CHAIN_BONUS_POINTS);
+  });
+
+  it('gives the bomb back to its owner', () => {
+    const state = freeze(stage(YARD));
+    run(state, press({ bomb: true }), 1);
+    expect(state.players[0].bombCount).toBe(1);
+    explodeBomb(state, state.bombs[0]);
+    expect(state.players[0].bombCount).toBe(0);
+  });
+});
+
+describe('game status', () => {
+  it('is won once the last enemy is blown up', () => {
+    const state = stage(['#########', '#P.....E#', '#########']);
+    addBomb(state, 1, 6, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(state.enemies).toHaveLength(0);
+    expect(count(state, 'enemyKilled')).toBe(1);
+    expect(state.status).toBe(GameStatus.Won);
+  });
+
+  it('removes every enemy caught in the same blast', () => {
+    const state = stage(['###########', '#P...E.E.E#', '###########']);
+    addBomb(state, 1, 6, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(state.enemies.map(e => tileOf(e))).toEqual([{ r: 1, c: 9 }]);
+    expect(count(state, 'enemyKilled')).toBe(2);
+    expect(state.status).toBe(GameStatus.Playing);
+  });
+
+  it('is lost exactly once when the last life goes, and then stops', () => {
+    const state = freeze(stage(['#########', '#P.....E#', '#########']));
+    addBomb(state, 1, 2, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(state.status).toBe(GameStatus.Lost);
+    expect(count(state, 'playerKilled')).toBe(1);
+    const tick = state.tick;
+    run(state, NO_INPUT, 60);
+    expect(state.tick).toBe(tick);
+    expect(state.status).toBe(GameStatus.Lost);
+  });
+
+  it('brings a bomber with lives to spare back at the spawn', () => {
+    const state = freeze(stage(['#########', '#P.....E#', '#########'], { lives: 2 }));
+    const player = state.players[0];
+    run(state, press({ right: true }), 5);
+    addBomb(state, 1, 2, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(player.alive).toBe(false);
+    expect(player.lives).toBe(1);
+    expect(state.status).toBe(GameStatus.Playing);
+    run(state, NO_INPUT, Math.ceil(RESPAWN_DELAY_MS / TICK_MS));
+    expect(player.alive).toBe(true);
+    expect(player.invulnerableMs).toBeGreaterThan(0);
+    expect({ x: player.x, y: player.y }).toEqual(tileCenter(1, 1));
+  });
+
+  it('puts a downed bomber\'s remote bombs back on a fuse', () => {
+    const state = freeze(stage(['#########', '#P.....E#', '#########'], { lives: 3 }));
+    const player = state.players[0];
+    player.remote = true;
+    run(state, press({ bomb: true }), 1);
+    const [bomb] = state.bombs;
+    expect(bomb.remote).toBe(true);
+    for (let i = 0; i < 200 && player.alive; i++) run(state, press({ right: true }), 1);
+    expect(player.alive).toBe(false);
+    expect(bomb.remote).toBe(false);
+    run(state, NO_INPUT, Math.ceil(CLASSIC_RULES.bombTimerMs / TICK_MS) + 1);
+    expect(state.bombs).toHaveLength(0);
+    expect(player.bombCount).toBe(0);
+  });
+
+  it('is lost when an adventure runs out of time', () => {
+    const state = freeze(stage(['#########', '#P.....E#', '#########'], { timeLimitMs: 100 }));
+    run(state, NO_INPUT, Math.ceil(100 / TICK_MS));
+    expect(state.status).toBe(GameStatus.Lost);
+  });
+
+  it('clears the stage by walking onto the open exit', () => {
+    const state = stage(['######', '#P...#', '######'], { timeLimitMs: 10000 });
+    state.exit = { ...tileCenter(1, 3), hidden: false, open: false };
+    run(state, NO_INPUT, 1);
+    expect(state.exit.open).toBe(true);
+    expect(state.status).toBe(GameStatus.Playing);
+    run(state, press({ right: true }), 24);
+    expect(state.status).toBe(GameStatus.StageClear);
+    expect(state.players[0].score).toBeGreaterThan(0);
+  });
+});
+
+describe('battle', () => {
+  const ARENA = ['#####', '#P..#', '#...#', '#...#', '#####'];
+  const duel = () => createGame(1, { layout: parseLevel(ARENA.join('\n')).layout, mode: GameMode.Battle, humans: 2 });
+
+  it('goes to the last bomber standing', () => {
+    const state = duel();
+    addBomb(state, 3, 2, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(state.status).toBe(GameStatus.RoundOver);
+    expect(state.winnerId).toBe(PLAYER_ID);
+    expect(state.players[0].kills).toBe(1);
+  });
+
+  it('is a draw when the last bombers go down together', () => {
+    const state = duel();
+    Object.assign(state.players[1], tileCenter(1, 3));
+    addBomb(state, 1, 2, { range: 1, timer: 1 });
+    run(state, NO_INPUT, 1);
+    expect(state.status).toBe(GameStatus.RoundOver);
+    expect(state.winnerId).toBeNull();
+  });
+
+  it('gives bombs dropped in the same step their own ids', () => {
+    const state = duel();
+    step(state, { [PLAYER_ID]: press({ bomb: true }), [humanId(1)]: press({ bomb: true }) }, TICK_MS);
+    expect(state.bombs).toHaveLength(2);
+    expect(new Set(state.bombs.map(b => b.id)).size).toBe(2);
+  });
+});
+
+describe('special tiles', () => {
+  const GRID = [
+    '###########',
+    '#P.~~~~.@.#',
+    '#.#.#.#.#.#',
+    '#.6666...%#',
+    '#.#.#.#.#.#',
+    '#@.>..<.mE#',
+    '###########',
+  ];
+  const world = () => freeze(stage(GRID));
+
+  it('keeps a bomber sliding across ice until it runs out', () => {
+    const state = world();
+    run(state, press({ right: true }), 22);
+    run(state, NO_INPUT, 60);
+    expect(tileOf(state.players[0])).toEqual({ r: 1, c: 7 });
+    expect(state.players[0].drift).toBeNull();
+  });
+
+  it('carries a bomber along a conveyor', () => {
+    const state = world();
+    run(state, press({ down: true }), 24);
+    run(state, press({ right: true }), 14);
+    run(state, NO_INPUT, 90);
+    expect(tileOf(state.players[0])).toEqual({ r: 3, c: 6 });
+  });
+
+  it('moves a bomber to the partner teleporter', () => {
+    const state = world();
+    run(state, press({ down: true }), 60);
+    expect(tileOf(state.players[0])).toEqual({ r: 1, c: 8 });
+  });
+
+  it('only lets bombers through one-way tiles the way they point', () => {
+    const state = world();
+    state.map[5][1] = TileType.Empty;
+    run(state, press({ down: true }), 60);
+    run(state, press({ right: true }), 120);
+    expect(tileOf(state.players[0])).toEqual({ r: 5, c: 5 });
+  });
+
+  it('lays mines that arm, then go off under an enemy', () => {
+    const state = world();
+    const player = state.players[0];
+    player.mines = 1;
+    run(state, press({ bomb: true }), 1);
+    expect(state.bombs[0].mine).toBe(true);
+    expect(player.bombCount).toBe(0);
+    expect(player.mines).toBe(0);
+    run(state, press({ right: true }), 30);
+    run(state, NO_INPUT, 100);
+    expect(state.bombs).toHaveLength(1);
+    Object.assign(state.enemies[0], tileCenter(1, 1));
+    run(state, NO_INPUT, 1);
+    expect(state.bombs).toHaveLength(0);
+    expect(state.explosions).toHaveLength(1);
+  });
+
+  it('throws a bomb three tiles with the glove', () => {
+    const state = world();
+    state.players[0].canThrow = true;
+    state.map[1][3] = TileType.Empty;
+    run(state, press({ right: true }), 1);
+    run(state, press({ bomb: true }), 1);
+    run(state, NO_INPUT, 1);
+    run(state, press({ bomb: true }), 1);
+    expect(state.bombs[0].flight).toEqual(tileCenter(1, 4));
+    run(state, NO_INPUT, 20);
+    expect(tileOf(state.bombs[0])).toEqual({ r: 1, c: 4 });
+    expect(state.bombs[0].flight).toBeNull();
+  });
+
+  it('waits for a thrown remote bomb to land before setting it off', () => {
+    const state = world();
+    Object.assign(state.players[0], { canThrow: true, remote: true });
+    state.map[1][3] = TileType.Empty;
+    run(state, press({ right: true }), 1);
+    run(state, press({ bomb: true }), 1);
+    run(state, NO_INPUT, 1);
+    run(state, press({ bomb: true }), 1);
+    const [bomb] = state.bombs;
+    run(state, press({ detonate: true }), 1);
+    expect(bomb.flight).not.toBeNull();
+    expect(state.bombs).toEqual([bomb]);
+    expect(state.explosions).toHaveLength(0);
+    run(state, NO_INPUT, 20);
+    run(state, press({ detonate: true }), 1);
+    expect(state.bombs).toHaveLength(0);
+    expect(state.explosions[0].particles).toContainEqual(expect.objectContaining({ x: 4, y: 1 }));
+  });
+});
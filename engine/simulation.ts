@@ -0,0 +1,787 @@
+import { TileType, GridPos, Enemy, EnemyKind, Explosion, Player, PlayerLoadout, Bomb, CurseType, CpuDifficulty, GameMode, GameStatus, GameState, GameOptions, MatchRules, PlayerInput, PlayerInputs, Point } from '../types';
+import {
+  TILE_SIZE,
+  GRID_ROWS,
+  GRID_COLS,
+  CLASSIC_RULES,
+  KICK_SPEED,
+  THROW_SPEED,
+  THROW_DISTANCE,
+  CONVEYOR_SPEED,
+  MINE_ARM_MS,
+  CURSED_SPEED,
+  POWER_UP_DROP_TABLE,
+  CPU_PROFILES,
+  MAX_BOMBERS,
+  SUDDEN_DEATH_INTERVAL_MS,
+  ENEMY_ARCHETYPES,
+  RESPAWN_DELAY_MS,
+  RESPAWN_INVULNERABLE_MS,
+  SOFT_WALL_POINTS,
+  RIVAL_POINTS,
+  CHAIN_BONUS_POINTS,
+  MULTI_KILL_MAX_MULTIPLIER,
+  TIME_BONUS_POINTS
+} from '../constants';
+import { createRng } from './rng';
+import { bombAt, canEnter, conveyorDir, getGridPos, inBounds, isBreakable, isCollision, isFloor, stopsFlames, teleportPartner, tileCenter } from './grid';
+import { createEnemy, exitAt, generateMap, placeExit, spawnCorners, spawnEnemies } from './mapgen';
+import { decideDirection, passableFor } from './ai';
+import { collectPowerUps, powerUpAt, scatterPowerUps, updateCurse } from './powerups';
+import { botInput } from './bot';
+
+export const PLAYER_ID = 'player';
+
+export const NO_INPUT: PlayerInput = { up: false, down: false, left: false, right: false, bomb: false, detonate: false };
+
+// What every bomber starts with, and gets back after losing a life.
+export const startingLoadout = (rules: MatchRules): PlayerLoadout => ({
+  speed: rules.startSpeed,
+  maxBombs: rules.startBombs,
+  blastRadius: rules.startRange,
+  canKick: false,
+  canThrow: false,
+  remote: false,
+  pierce: false,
+  mines: 0
+});
+
+export const DEFAULT_LOADOUT = startingLoadout(CLASSIC_RULES);
+
+const DEFAULT_OPTIONS: GameOptions = {
+  rows: GRID_ROWS,
+  cols: GRID_COLS,
+  softWallDensity: null,
+  layout: null,
+  enemies: null,
+  mode: GameMode.Adventure,
+  humans: 1,
+  rivals: [],
+  timeLimitMs: null,
+  exit: false,
+  dropTable: POWER_UP_DROP_TABLE,
+  loadout: null,
+  lives: 1,
+  score: 0,
+  rules: CLASSIC_RULES
+};
+
+const allocId = (state: GameState) => state.nextId++;
+
+export const createPlayer = (loadout: PlayerLoadout = DEFAULT_LOADOUT, spawn: GridPos = { r: 1, c: 1 }, size = CLASSIC_RULES.hitboxSize): Player => ({
+  id: PLAYER_ID,
+  slot: 0,
+  bot: null,
+  kills: 0,
+  score: 0,
+  ...tileCenter(spawn.r, spawn.c),
+  width: size,
+  height: size,
+  alive: true,
+  lives: 1,
+  spawn,
+  respawnMs: 0,
+  invulnerableMs: 0,
+  bombCount: 0,
+  ...loadout,
+  facing: { x: 0, y: 1 },
+  drift: null,
+  curse: null,
+  curseTimer: 0
+});
+
+export const humanId = (slot: number) => slot === 0 ? PLAYER_ID : `player-${slot + 1}`;
+
+const createHuman = (slot: number, loadout: PlayerLoadout, spawn: GridPos, lives: number, score: number, size: number): Player => ({
+  ...createPlayer(loadout, spawn, size),
+  id: humanId(slot),
+  slot,
+  lives,
+  score
+});
+
+export const createRival = (slot: number, difficulty: CpuDifficulty, spawn: GridPos, rules: MatchRules = CLASSIC_RULES): Player => ({
+  ...createPlayer(startingLoadout(rules), spawn, rules.hitboxSize),
+  id: `cpu-${slot}`,
+  slot,
+  bot: { difficulty, goal: null, thinkTimer: CPU_PROFILES[difficulty].thinkMs }
+});
+
+export const getPlayer = (state: GameState, id: string) => state.players.find(p => p.id === id);
+
+// The human in single-player modes.
+export const humanPlayer = (state: GameState) => state.players[0];
+
+export const getLoadout = (player: Player): PlayerLoadout => ({
+  speed: player.speed,
+  maxBombs: player.maxBombs,
+  blastRadius: player.blastRadius,
+  canKick: player.canKick,
+  canThrow: player.canThrow,
+  remote: player.remote,
+  pierce: player.pierce,
+  mines: player.mines
+});
+
+export const createGame = (seed: number, overrides: Partial<GameOptions> = {}): GameState => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const { layout, rules } = options;
+  const rng = createRng(seed);
+  const rows = layout ? layout.tiles.length : options.rows;
+  const cols = layout ? layout.tiles[0].length : options.cols;
+  const humans = Math.max(1, Math.min(options.humans, MAX_BOMBERS));
+  const rivals = options.rivals.slice(0, MAX_BOMBERS - humans);
+  const corners = spawnCorners(rows, cols).slice(0, humans + rivals.length);
+  // Authored levels fix the first spawn and may have walled off other corners
+  const spawns = layout
+    ? [layout.spawn, ...corners.slice(1).filter(pos => layout.tiles[pos.r]?.[pos.c] === TileType.Empty)]
+    : corners;
+  const map = layout
+    ? layout.tiles.map(row => [...row])
+    : generateMap(rng, rows, cols, options.softWallDensity ?? rules.softWallDensity, spawns);
+  const state: GameState = {
+    seed,
+    rng,
+    tick: 0,
+    mode: options.mode,
+    status: GameStatus.Playing,
+    winnerId: null,
+    map,
+    players: spawns.slice(0, humans).map((pos, slot) => slot === 0
+      ? createHuman(slot, options.loadout ?? startingLoadout(rules), pos, options.lives, options.score, rules.hitboxSize)
+      : createHuman(slot, startingLoadout(rules), pos, options.lives, 0, rules.hitboxSize)),
+    bombs: [],
+    explosions: [],
+    enemies: [],
+    powerUps: [],
+    exit: null,
+    timeLeftMs: options.timeLimitMs,
+    suddenDeath: null,
+    dropTable: options.dropTable,
+    rules,
+    nextId: 1,
+    events: []
+  };
+  spawns.slice(humans).forEach((pos, i) => {
+    state.players.push(createRival(humans + i, rivals[i], pos, rules));
+  });
+
+  if (options.exit) {
+    state.exit = layout?.exit ? exitAt(map, layout.exit) : placeExit(rng, map, spawns, rules);
+  }
+
+  // Authored levels place every item and enemy by hand
+  if (layout) {
+    state.powerUps = layout.items.map(item => ({
+      id: allocId(state), ...tileCenter(item.r, item.c), type: item.type, hidden: map[item.r][item.c] === TileType.SoftWall
+    }));
+    state.enemies = layout.enemies.map(e => createEnemy(allocId(state), e, e.kind, rules.hitboxSize));
+    return state;
+  }
+
+  const exit = state.exit;
+  state.powerUps = scatterPowerUps(rng, map, options.dropTable, () => allocId(state))
+    .filter(item => !exit || item.x !== exit.x || item.y !== exit.y);
+  const roster = options.enemies ?? Array<EnemyKind>(rules.enemyCount).fill(EnemyKind.Wanderer);
+  state.enemies = spawnEnemies(rng, map, roster, () => allocId(state), spawns, rules);
+  return state;
+};
+
+// Costs the bomber a life; with lives to spare it comes back after a delay.
+// Nobody is left to set off its remote bombs, so their fuses start burning.
+const killPlayer = (state: GameState, player: Player) => {
+  state.events.push({ type: 'playerKilled', playerId: player.id });
+  state.bombs.forEach(b => {
+    if (b.ownerId === player.id) b.remote = false;
+  });
+  player.alive = false;
+  player.curse = null;
+  player.lives = Math.max(0, player.lives - 1);
+  player.respawnMs = RESPAWN_DELAY_MS;
+};
+
+// Flames and enemies pass harmlessly through a freshly respawned bomber.
+const isVulnerable = (player: Player) => player.alive && player.invulnerableMs <= 0;
+
+// Respawns stop once the clock has run out.
+const canRespawn = (state: GameState, player: Player) => !player.alive && player.lives > 0 && state.timeLeftMs !== 0;
+
+const award = (state: GameState, playerId: string, points: number) => {
+  const player = getPlayer(state, playerId);
+  if (player) player.score += points;
+};
+
+// Flames credit their owner, except for bombers caught in their own blast.
+const creditKill = (state: GameState, ownerId: string, victimId: string | null, points: number) => {
+  const owner = getPlayer(state, ownerId);
+  if (!owner || ownerId === victimId) return;
+  owner.kills++;
+  owner.score += points;
+};
+
+// A tile a sliding bomb heading in `dir` cannot enter.
+const isTileBlocked = (state: GameState, r: number, c: number, self: Bomb, dir: Point) => {
+  if (!inBounds(state.map, r, c) || !canEnter(state.map[r][c], dir)) return true;
+  const other = bombAt(state, r, c);
+  if (other && other !== self) return true;
+  const occupied = (x: number, y: number) => {
+    const pos = getGridPos(x, y);
+    return pos.r === r && pos.c === c;
+  };
+  if (state.players.some(p => p.alive && occupied(p.x, p.y))) return true;
+  return state.enemies.some(e => occupied(e.x, e.y));
+};
+
+// Sends a resting bomb sliding when a bomber walks into it.
+const tryKick = (state: GameState, player: Player, dir: Point, speed: number) => {
+  const pos = getGridPos(player.x, player.y);
+  const bomb = bombAt(state, pos.r + dir.y, pos.c + dir.x);
+  if (!bomb || bomb.sliding || bomb.mine) return;
+  const gap = Math.abs((bomb.x - player.x) * dir.x + (bomb.y - player.y) * dir.y) - (TILE_SIZE + player.width) / 2;
+  if (gap > speed) return;
+  if (isTileBlocked(state, pos.r + dir.y * 2, pos.c + dir.x * 2, bomb, dir)) return;
+  bomb.sliding = { ...dir };
+};
+
+// Lobs a bomb THROW_DISTANCE tiles ahead, over whatever is in between. It
+// lands on the first free floor from there on; with none before the edge of
+// the map, it stays put.
+const throwBomb = (state: GameState, bomb: Bomb, dir: Point) => {
+  const pos = getGridPos(bomb.x, bomb.y);
+  for (let i = THROW_DISTANCE; ; i++) {
+    const r = pos.r + dir.y * i, c = pos.c + dir.x * i;
+    if (!inBounds(state.map, r, c)) return;
+    if (isFloor(state.map[r][c]) && !bombAt(state, r, c)) {
+      bomb.flight = tileCenter(r, c);
+      bomb.sliding = null;
+      return;
+    }
+  }
+};
+
+const moveFlyingBomb = (bomb: Bomb) => {
+  const target = bomb.flight!;
+  const dx = target.x - bomb.x, dy = target.y - bomb.y;
+  if (Math.abs(dx) + Math.abs(dy) <= THROW_SPEED) {
+    bomb.x = target.x;
+    bomb.y = target.y;
+    bomb.flight = null;
+    return;
+  }
+  bomb.x += Math.sign(dx) * THROW_SPEED;
+  bomb.y += Math.sign(dy) * THROW_SPEED;
+};
+
+// A bomb resting on a belt is sent along it, and then slides on like a
+// kicked one.
+const rideConveyor = (state: GameState, bomb: Bomb) => {
+  if (bomb.sliding || bomb.mine) return;
+  const pos = getGridPos(bomb.x, bomb.y);
+  const belt = conveyorDir(state.map[pos.r][pos.c]);
+  if (belt && !isTileBlocked(state, pos.r + belt.y, pos.c + belt.x, bomb, belt)) bomb.sliding = { ...belt };
+};
+
+const moveSlidingBomb = (state: GameState, bomb: Bomb) => {
+  const dir = bomb.sliding;
+  if (!dir) return;
+  const pos = getGridPos(bomb.x, bomb.y);
+  const center = tileCenter(pos.r, pos.c);
+  const pastCenter = (bomb.x - center.x) * dir.x + (bomb.y - center.y) * dir.y >= 0;
+  if (pastCenter && isTileBlocked(state, pos.r + dir.y, pos.c + dir.x, bomb, dir)) {
+    bomb.x = center.x;
+    bomb.y = center.y;
+    bomb.sliding = null;
+    return;
+  }
+  bomb.x += dir.x * KICK_SPEED;
+  bomb.y += dir.y * KICK_SPEED;
+};
+
+const tileUnder = (state: GameState, x: number, y: number) => {
+  const pos = getGridPos(x, y);
+  return state.map[pos.r][pos.c];
+};
+
+// Axis move with corner sliding: when blocked near a tile centre, nudge the
+// player along the other axis so they slip around pillars. On ice the input
+// is ignored while the bomber slides in the direction they stepped on.
+const movePlayer = (state: GameState, player: Player, input: PlayerInput) => {
+  const speed = player.curse === CurseType.Slow ? CURSED_SPEED : player.speed;
+  let dx = 0; let dy = 0;
+  if (input.up) dy -= speed;
+  if (input.down) dy += speed;
+  if (input.left) dx -= speed;
+  if (input.right) dx += speed;
+  if (player.curse === CurseType.Reverse) {
+    dx = -dx;
+    dy = -dy;
+  }
+  if (dx !== 0 || dy !== 0) {
+    player.facing = Math.abs(dx) >= Math.abs(dy) ? { x: Math.sign(dx), y: 0 } : { x: 0, y: Math.sign(dy) };
+  }
+
+  if (tileUnder(state, player.x, player.y) !== TileType.Ice) {
+    player.drift = null;
+  } else if (player.drift || dx !== 0 || dy !== 0) {
+    player.drift ??= { ...player.facing };
+    dx = player.drift.x * speed;
+    dy = player.drift.y * speed;
+  }
+  const start = { x: player.x, y: player.y };
+
+  if (dx !== 0 && dy !== 0) {
+    const len = Math.hypot(dx, dy);
+    dx = (dx / len) * speed;
+    dy = (dy / len) * speed;
+  }
+
+  if (player.canKick && (dx === 0) !== (dy === 0)) {
+    tryKick(state, player, { x: Math.sign(dx), y: Math.sign(dy) }, speed);
+  }
+
+  if (dx !== 0) {
+    const nextX = player.x + dx;
+    if (!isCollision(state, nextX, player.y, player.width, player.height, player.x, player.y)) {
+      player.x = nextX;
+    } else {
+      const gridY = Math.floor(player.y / TILE_SIZE);
+      const centerY = gridY * TILE_SIZE + TILE_SIZE / 2;
+      const offset = player.y - centerY;
+      if (Math.abs(offset) < 20) {
+        if (offset > 0) {
+          if (!isCollision(state, nextX, player.y - speed, player.width, player.height, player.x, player.y)) player.y -= speed;
+        } else {
+          if (!isCollision(state, nextX, player.y + speed, player.width, player.height, player.x, player.y)) player.y += speed;
+        }
+      }
+    }
+  }
+
+  if (dy !== 0) {
+    const nextY = player.y + dy;
+    if (!isCollision(state, player.x, nextY, player.width, player.height, player.x, player.y)) {
+      player.y = nextY;
+    } else {
+      const gridX = Math.floor(player.x / TILE_SIZE);
+      const centerX = gridX * TILE_SIZE + TILE_SIZE / 2;
+      const offset = player.x - centerX;
+      if (Math.abs(offset) < 20) {
+        if (offset > 0) {
+          if (!isCollision(state, player.x - speed, nextY, player.width, player.height, player.x, player.y)) player.x -= speed;
+        } else {
+          if (!isCollision(state, player.x + speed, nextY, player.width, player.height, player.x, player.y)) player.x += speed;
+        }
+      }
+    }
+  }
+
+  // An ice slide ends against whatever stopped it
+  const drift = player.drift;
+  if (drift && (player.x - start.x) * drift.x + (player.y - start.y) * drift.y <= 0) player.drift = null;
+};
+
+const carryPlayer = (state: GameState, player: Player) => {
+  const belt = conveyorDir(tileUnder(state, player.x, player.y));
+  if (!belt) return;
+  const x = player.x + belt.x * CONVEYOR_SPEED, y = player.y + belt.y * CONVEYOR_SPEED;
+  if (isCollision(state, x, y, player.width, player.height, player.x, player.y)) return;
+  player.x = x;
+  player.y = y;
+};
+
+// Moves whoever just stepped onto a teleporter (from `from`) to its partner,
+// unless a bomb sits there. Enemies pass no `from`; they only call this on
+// reaching a tile centre.
+const teleport = (state: GameState, entity: Point, from: GridPos | null) => {
+  const pos = getGridPos(entity.x, entity.y);
+  if ((from && pos.r === from.r && pos.c === from.c) || state.map[pos.r][pos.c] !== TileType.Teleporter) return;
+  const partner = teleportPartner(state.map, pos.r, pos.c);
+  if (!partner || bombAt(state, partner.r, partner.c)) return;
+  Object.assign(entity, tileCenter(partner.r, partner.c));
+};
+
+// Lays a mine while the bomber has any left; mines do not count against the
+// bomb limit.
+export const placeBomb = (state: GameState, player: Player) => {
+  const mine = player.mines > 0;
+  if (!mine && player.bombCount >= player.maxBombs) return;
+  const gridPos = getGridPos(player.x, player.y);
+  if (!bombAt(state, gridPos.r, gridPos.c)) {
+    state.bombs.push({
+      id: allocId(state), ...tileCenter(gridPos.r, gridPos.c), timer: mine ? MINE_ARM_MS : state.rules.bombTimerMs, range: player.blastRadius,
+      ownerId: player.id, remote: player.remote && !mine, pierce: player.pierce, mine, sliding: null, flight: null
+    });
+    if (mine) player.mines--;
+    else player.bombCount++;
+    state.events.push({ type: 'bombPlaced', ownerId: player.id });
+  }
+};
+
+// The bomber whose bomb it is gets it back once it has gone off.
+const releaseBomb = (state: GameState, bomb: Bomb) => {
+  const owner = getPlayer(state, bomb.ownerId);
+  if (owner && !bomb.mine) owner.bombCount--;
+};
+
+const BLAST_DIRS = [{dr: -1, dc: 0}, {dr: 1, dc: 0}, {dr: 0, dc: -1}, {dr: 0, dc: 1}];
+
+// Detonates a bomb and every bomb its flames reach, in the order the flames
+// reach them. Soft walls broken by the chain keep blocking the other blasts
+// of the same chain and are only cleared once it has fully resolved, so the
+// items they uncover are not burnt by the blast that revealed them.
+export const explodeBomb = (state: GameState, bomb: Bomb, triggeredBy: number | null = null) => {
+  const queue = [{ bomb, triggeredBy }];
+  const brokenWalls: (GridPos & { ownerId: string })[] = [];
+  state.bombs = state.bombs.filter(b => b !== bomb);
+  let chained = 0;
+
+  while (queue.length > 0) {
+    const { bomb: current, triggeredBy: source } = queue.shift()!;
+    chained++;
+    releaseBomb(state, current);
+
+    const center = getGridPos(current.x, current.y);
+    const particles = [{ x: center.c, y: center.r }];
+    BLAST_DIRS.forEach(d => {
+      for (let i = 1; i <= current.range; i++) {
+        const r = center.r + d.dr * i;
+        const c = center.c + d.dc * i;
+        if (!inBounds(state.map, r, c)) break;
+        const tile = state.map[r][c];
+        if (tile === TileType.HardWall) break;
+        particles.push({ x: c, y: r });
+        if (isBreakable(tile)) {
+          brokenWalls.push({ r, c, ownerId: current.ownerId });
+          if (stopsFlames(tile, current.pierce)) break;
+          continue;
+        }
+        const item = powerUpAt(state, r, c);
+        if (item && !item.hidden) {
+          state.powerUps = state.powerUps.filter(p => p !== item);
+          break;
+        }
+        const hit = bombAt(state, r, c);
+        if (hit) {
+          state.bombs = state.bombs.filter(b => b !== hit);
+          queue.push({ bomb: hit, triggeredBy: current.id });
+          award(state, bomb.ownerId, CHAIN_BONUS_POINTS);
+          break;
+        }
+      }
+    });
+
+    state.explosions.push({
+      id: allocId(state),
+      bombId: current.id,
+      triggeredBy: source,
+      ownerId: current.ownerId,
+      chainId: bomb.id,
+      kills: 0,
+      timer: state.rules.explosionMs,
+      particles: particles.map(p => ({ ...p, alpha: 1.0 }))
+    });
+  }
+
+  state.events.push({ type: 'explosion', bombs: chained });
+
+  // Overlapping blasts can hit the same wall; it only takes one hit per chain
+  // and only scores once. Tough walls crack into soft ones.
+  const hit = new Set<string>();
+  brokenWalls.forEach(({ r, c, ownerId }) => {
+    if (hit.has(`${r},${c}`)) return;
+    hit.add(`${r},${c}`);
+    if (state.map[r][c] === TileType.ToughWall) {
+      state.map[r][c] = TileType.SoftWall;
+      return;
+    }
+    if (state.map[r][c] !== TileType.SoftWall) return;
+    award(state, ownerId, SOFT_WALL_POINTS);
+    state.map[r][c] = TileType.Empty;
+    const item = powerUpAt(state, r, c);
+    if (item) item.hidden = false;
+    if (state.exit) {
+      const exitPos = getGridPos(state.exit.x, state.exit.y);
+      if (exitPos.r === r && exitPos.c === c) state.exit.hidden = false;
+    }
+  });
+};
+
+// An armed mine goes off under any bomber or enemy, its layer included.
+const isTripped = (state: GameState, mine: Bomb) => {
+  if (mine.timer > 0) return false;
+  const pos = getGridPos(mine.x, mine.y);
+  const on = (x: number, y: number) => {
+    const at = getGridPos(x, y);
+    return at.r === pos.r && at.c === pos.c;
+  };
+  return state.players.some(p => p.alive && on(p.x, p.y)) || state.enemies.some(e => on(e.x, e.y));
+};
+
+// Fuses burn down together; bombs that expire in the same step go off in
+// fuse order so chains are attributed to the bomb that blew first. Fuses
+// hold while a bomb is in the air.
+const updateBombs = (state: GameState, dt: number) => {
+  state.bombs.forEach(b => {
+    if (b.flight) {
+      moveFlyingBomb(b);
+      return;
+    }
+    rideConveyor(state, b);
+    moveSlidingBomb(state, b);
+    if (b.mine) b.timer = Math.max(0, b.timer - dt);
+    else if (!b.remote) b.timer -= dt;
+  });
+  const due = state.bombs
+    .filter(b => !b.flight && (b.mine ? isTripped(state, b) : b.timer <= 0))
+    .sort((a, b) => a.timer - b.timer || a.id - b.id);
+  for (const bomb of due) {
+    if (state.bombs.includes(bomb)) explodeBomb(state, bomb);
+  }
+};
+
+// Every enemy already caught by the same chain doubles the next one's value.
+const multiKillMultiplier = (state: GameState, exp: Explosion) => {
+  const kills = state.explosions.reduce((sum, e) => e.chainId === exp.chainId ? sum + e.kills : sum, 0);
+  return Math.min(2 ** kills, MULTI_KILL_MAX_MULTIPLIER);
+};
+
+const updateExplosions = (state: GameState, dt: number) => {
+  state.explosions = state.explosions.filter(exp => {
+    exp.timer -= dt;
+    return exp.timer > 0;
+  });
+  for (const exp of state.explosions) {
+    for (const p of exp.particles) {
+      // Bombs placed into lingering flames go off straight away
+      const bomb = bombAt(state, p.y, p.x);
+      if (bomb) explodeBomb(state, bomb, exp.bombId);
+
+      for (const player of state.players) {
+        const pGrid = getGridPos(player.x, player.y);
+        if (!isVulnerable(player) || pGrid.r !== p.y || pGrid.c !== p.x) continue;
+        killPlayer(state, player);
+        creditKill(state, exp.ownerId, player.id, player.bot ? RIVAL_POINTS : 0);
+      }
+      state.enemies = state.enemies.filter(enemy => {
+        const eGrid = getGridPos(enemy.x, enemy.y);
+        if (eGrid.r !== p.y || eGrid.c !== p.x) return true;
+        creditKill(state, exp.ownerId, null, ENEMY_ARCHETYPES[enemy.kind].points * multiKillMultiplier(state, exp));
+        exp.kills++;
+        state.events.push({ type: 'enemyKilled', kind: enemy.kind });
+        return false;
+      });
+    }
+  }
+};
+
+// Next tile centre along `dir` on one axis, strictly ahead of `v`.
+const centerAhead = (v: number, dir: number) => {
+  const center = Math.floor(v / TILE_SIZE) * TILE_SIZE + TILE_SIZE / 2;
+  if (dir > 0) return v < center ? center : center + TILE_SIZE;
+  return v > center ? center : center - TILE_SIZE;
+};
+
+// Enemies travel from tile centre to tile centre and only pick a new heading
+// once they arrive, so they never grind against walls.
+const moveEnemy = (state: GameState, enemy: Enemy) => {
+  const pos = getGridPos(enemy.x, enemy.y);
+  const center = tileCenter(pos.r, pos.c);
+  if (enemy.x === center.x && enemy.y === center.y) {
+    enemy.direction = decideDirection(state, enemy, pos);
+  }
+  const dir = enemy.direction;
+  if (dir.x === 0 && dir.y === 0) return;
+
+  let targetX = dir.x !== 0 ? centerAhead(enemy.x, dir.x) : enemy.x;
+  let targetY = dir.y !== 0 ? centerAhead(enemy.y, dir.y) : enemy.y;
+  const target = getGridPos(targetX, targetY);
+  if ((target.r !== pos.r || target.c !== pos.c) && !passableFor(state, enemy.kind)(target.r, target.c, dir)) {
+    // Something (usually a fresh bomb) landed in the way; turn back
+    enemy.direction = { x: -dir.x, y: -dir.y };
+    targetX = dir.x !== 0 ? centerAhead(enemy.x, -dir.x) : enemy.x;
+    targetY = dir.y !== 0 ? centerAhead(enemy.y, -dir.y) : enemy.y;
+  }
+  const dx = targetX - enemy.x;
+  const dy = targetY - enemy.y;
+  const dist = Math.abs(dx) + Math.abs(dy);
+  if (dist <= enemy.speed) {
+    enemy.x = targetX;
+    enemy.y = targetY;
+    teleport(state, enemy, null);
+  } else {
+    enemy.x += Math.sign(dx) * enemy.speed;
+    enemy.y += Math.sign(dy) * enemy.speed;
+  }
+};
+
+const updateEnemies = (state: GameState) => {
+  for (const enemy of state.enemies) {
+    for (const player of state.players) {
+      const dist = Math.hypot(player.x - enemy.x, player.y - enemy.y);
+      if (isVulnerable(player) && dist < TILE_SIZE * 0.7) killPlayer(state, player);
+    }
+    moveEnemy(state, enemy);
+  }
+};
+
+const updateBomber = (state: GameState, player: Player, input: PlayerInput, dt: number) => {
+  updateCurse(player, dt);
+  const from = getGridPos(player.x, player.y);
+  movePlayer(state, player, input);
+  carryPlayer(state, player);
+  teleport(state, player, from);
+  collectPowerUps(state, player);
+
+  const wantsBomb = player.curse === CurseType.Diarrhea || input.bomb;
+  if (wantsBomb && player.curse !== CurseType.NoBombs) {
+    // With the glove, pressing bomb while standing on one throws it
+    const pos = getGridPos(player.x, player.y);
+    const under = bombAt(state, pos.r, pos.c);
+    if (input.bomb && player.canThrow && under && !under.mine) throwBomb(state, under, player.facing);
+    else placeBomb(state, player);
+  }
+  // A thrown remote bomb has to land first, like any other fuse
+  if (input.detonate) {
+    const remoteBomb = state.bombs.find(b => b.remote && !b.flight && b.ownerId === player.id);
+    if (remoteBomb) explodeBomb(state, remoteBomb);
+  }
+};
+
+const updateRespawns = (state: GameState, dt: number) => {
+  state.players.forEach(player => {
+    if (player.alive) {
+      player.invulnerableMs = Math.max(0, player.invulnerableMs - dt);
+      return;
+    }
+    if (!canRespawn(state, player)) return;
+    player.respawnMs -= dt;
+    if (player.respawnMs > 0) return;
+    // Back at the spawn point with the starting loadout, as a lost life
+    // costs the power-ups collected so far
+    Object.assign(player, tileCenter(player.spawn.r, player.spawn.c), startingLoadout(state.rules));
+    player.alive = true;
+    player.invulnerableMs = RESPAWN_INVULNERABLE_MS;
+  });
+};
+
+// Walls close in from the outside, one ring at a time.
+const spiralOrder = (rows: number, cols: number): GridPos[] => {
+  const order: GridPos[] = [];
+  let top = 1, left = 1, bottom = rows - 2, right = cols - 2;
+  while (top <= bottom && left <= right) {
+    for (let c = left; c <= right; c++) order.push({ r: top, c });
+    for (let r = top + 1; r <= bottom; r++) order.push({ r, c: right });
+    if (top < bottom) for (let c = right - 1; c >= left; c--) order.push({ r: bottom, c });
+    if (left < right) for (let r = bottom - 1; r > top; r--) order.push({ r, c: left });
+    top++; left++; bottom--; right--;
+  }
+  return order;
+};
+
+// Drops a hard wall, crushing whatever stands on the tile.
+const dropWall = (state: GameState, { r, c }: GridPos) => {
+  state.map[r][c] = TileType.HardWall;
+  const on = (x: number, y: number) => {
+    const pos = getGridPos(x, y);
+    return pos.r === r && pos.c === c;
+  };
+  state.players.forEach(p => { if (p.alive && on(p.x, p.y)) killPlayer(state, p); });
+  state.enemies = state.enemies.filter(e => !on(e.x, e.y));
+  state.powerUps = state.powerUps.filter(p => !on(p.x, p.y));
+  state.bombs = state.bombs.filter(b => {
+    if (!on(b.x, b.y)) return true;
+    releaseBomb(state, b);
+    return false;
+  });
+};
+
+const updateSuddenDeath = (state: GameState, dt: number) => {
+  if (!state.suddenDeath) {
+    state.suddenDeath = { queue: spiralOrder(state.map.length, state.map[0].length), timer: 0 };
+  }
+  const sd = state.suddenDeath;
+  sd.timer -= dt;
+  while (sd.timer <= 0 && sd.queue.length > 0) {
+    const pos = sd.queue.shift()!;
+    if (state.map[pos.r][pos.c] === TileType.HardWall) continue;
+    dropWall(state, pos);
+    sd.timer += SUDDEN_DEATH_INTERVAL_MS;
+  }
+};
+
+// Running out of time is fatal on an adventure stage; in battle it brings
+// the walls in.
+const updateTimer = (state: GameState, dt: number) => {
+  if (state.timeLeftMs === null) return;
+  state.timeLeftMs = Math.max(0, state.timeLeftMs - dt);
+  if (state.timeLeftMs > 0) return;
+  if (state.mode === GameMode.Battle) updateSuddenDeath(state, dt);
+  else state.players.forEach(p => { if (p.alive) killPlayer(state, p); });
+};
+
+const awardTimeBonus = (state: GameState) => {
+  const seconds = Math.floor((state.timeLeftMs ?? 0) / 1000);
+  state.players.forEach(p => { if (!p.bot && p.alive) p.score += seconds * TIME_BONUS_POINTS; });
+};
+
+// Last bomber standing wins; if the final bombers go down in the same step the
+// round is a draw.
+const updateBattleStatus = (state: GameState) => {
+  const alive = state.players.filter(p => p.alive);
+  if (alive.length > 1) return;
+  state.status = GameStatus.RoundOver;
+  state.winnerId = alive[0]?.id ?? null;
+};
+
+// Humans lose once they are all down for good. Clearing the stage means getting rid of
+// every enemy and rival, then walking out through the exit if there is one.
+const updateStatus = (state: GameState) => {
+  if (state.mode === GameMode.Battle) {
+    updateBattleStatus(state);
+    return;
+  }
+  const humans = state.players.filter(p => !p.bot);
+  if (!humans.some(p => p.alive || canRespawn(state, p))) {
+    state.status = GameStatus.Lost;
+    return;
+  }
+  if (state.enemies.length > 0 || state.players.some(p => p.bot && p.alive)) return;
+  if (!state.exit) {
+    state.status = GameStatus.Won;
+    awardTimeBonus(state);
+    return;
+  }
+  state.exit.open = true;
+  const exitPos = getGridPos(state.exit.x, state.exit.y);
+  const onExit = humans.some(p => {
+    const pos = getGridPos(p.x, p.y);
+    return p.alive && pos.r === exitPos.r && pos.c === exitPos.c;
+  });
+  if (!state.exit.hidden && onExit) {
+    state.status = GameStatus.StageClear;
+    awardTimeBonus(state);
+  }
+};
+
+// Advances the simulation by one step. The state is updated in place and
+// returned; given the same seed and input sequence the result is identical.
+// Bots decide from the state as it was at the start of the step.
+export const step = (state: GameState, inputs: PlayerInputs, dt: number): GameState => {
+  if (state.status !== GameStatus.Playing) return state;
+  state.tick++;
+  state.events = [];
+
+  const moves = state.players.map(p => !p.alive ? NO_INPUT : p.bot ? botInput(state, p, dt) : inputs[p.id] ?? NO_INPUT);
+  state.players.forEach((player, i) => {
+    if (player.alive) updateBomber(state, player, moves[i], dt);
+  });
+
+  updateBombs(state, dt);
+  updateExplosions(state, dt);
+  updateEnemies(state);
+  updateRespawns(state, dt);
+
+  updateTimer(state, dt);
+  updateStatus(state);
+  return state;
+};
@@ -0,0 +1,17 @@
+import { CpuDifficulty, EnemyKind, LevelDefinition, LevelTheme } from '../types';
+import { loadLevel } from '../engine/levels';
+import stoneGarden from './stone-garden.txt?raw';
+import fortress from './fortress.txt?raw';
+
+const { Wanderer: W, Chaser: C, BombAvoider: A, Ghost: G, Speedy: S } = EnemyKind;
+
+export const CAMPAIGN_LEVELS: LevelDefinition[] = [
+  { id: 'meadow-1', name: 'Carrot Patch', rows: 11, cols: 13, softWallDensity: 0.25, enemies: [W, W], timeLimitMs: 180000, theme: LevelTheme.Meadow },
+  { id: 'meadow-2', name: 'Clover Field', rows: 13, cols: 13, softWallDensity: 0.3, enemies: [W, W, S], timeLimitMs: 180000, theme: LevelTheme.Meadow },
+  { id: 'desert-1', name: 'Dune Warren', rows: 13, cols: 15, softWallDensity: 0.3, enemies: [W, W, A, S], timeLimitMs: 180000, theme: LevelTheme.Desert },
+  loadLevel(stoneGarden),
+  { id: 'desert-2', name: 'Cactus Maze', rows: 15, cols: 15, softWallDensity: 0.35, enemies: [W, A, A, C, S], timeLimitMs: 200000, theme: LevelTheme.Desert },
+  { id: 'snow-1', name: 'Frost Burrow', rows: 15, cols: 15, softWallDensity: 0.35, enemies: [W, A, C, C, S, G], rivals: [CpuDifficulty.Normal], timeLimitMs: 200000, theme: LevelTheme.Snow },
+  { id: 'night-1', name: 'Moonlit Hollow', rows: 15, cols: 17, softWallDensity: 0.4, enemies: [A, A, C, C, G, G, S], rivals: [CpuDifficulty.Hard], timeLimitMs: 240000, theme: LevelTheme.Night },
+  loadLevel(fortress),
+];
@@ -0,0 +1,148 @@
+// Plays an online match on localhost with headless clients: one hosts, the
+// others join by code, everyone mashes random inputs, one player drops out
+// and rejoins mid-round, and stray clients send frames the server cannot
+// read. Exits non-zero if anything goes wrong.
+//
+//   npm run online:smoke [-- <clients>]
+import { WebSocket } from 'ws';
+import { CpuDifficulty, GameStatus, PlayerInput } from '../types';
+import { CLASSIC_RULES, GRID_COLS, GRID_ROWS, NET_MAX_PAYLOAD, TICK_MS } from '../constants';
+import { NET_SUBPROTOCOL } from '../engine/protocol';
+import { NetClient, createNetClient, createRoom, joinRoom, predictTick, receiveMessage, startOnlineMatch } from '../engine/online';
+import { startServer } from './server';
+
+interface Bot {
+  name: string;
+  client: NetClient;
+  socket: WebSocket;
+  input: PlayerInput;
+  corrections: number[]; // How far each snapshot moved the predicted bunny, in pixels
+  errors: string[];
+}
+
+const CLIENTS = Math.max(2, Math.min(4, Number(process.argv[2] ?? 3)));
+const DROP_AT_MS = 2000;
+const OFFLINE_MS = 1000;
+const TIMEOUT_MS = 20000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const until = async (check: () => boolean, what: string) => {
+  const deadline = Date.now() + 5000;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await sleep(10);
+  }
+};
+
+const server = await startServer(0);
+const url = `ws://localhost:${server.port}`;
+
+const open = (bot: Bot) => new Promise<void>((resolve, reject) => {
+  const socket = new WebSocket(url, NET_SUBPROTOCOL);
+  bot.socket = socket;
+  bot.client.send = text => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(text);
+  };
+  socket.on('message', data => {
+    const client = bot.client;
+    const before = client.playerId && client.state?.players.find(p => p.id === client.playerId);
+    const from = before ? { x: before.x, y: before.y } : null;
+    const update = receiveMessage(client, String(data), performance.now());
+    if (update === 'error') bot.errors.push(client.error ?? '');
+    const after = client.state?.players.find(p => p.id === client.playerId);
+    if (update === 'state' && from && after) bot.corrections.push(Math.hypot(after.x - from.x, after.y - from.y));
+  });
+  socket.on('open', () => resolve());
+  socket.on('error', reject);
+});
+
+// Connects outside the game and sends something broken, which should cost
+// that connection and nothing else
+const sendGarbage = async (send: (socket: WebSocket) => void) => {
+  const socket = new WebSocket(url, NET_SUBPROTOCOL);
+  let closed = false;
+  socket.on('close', () => { closed = true; });
+  socket.on('error', () => {});
+  await new Promise(resolve => socket.on('open', resolve));
+  send(socket);
+  await until(() => closed, 'the server to drop a bad client');
+};
+
+const bots: Bot[] = [];
+for (let i = 0; i < CLIENTS; i++) {
+  const bot: Bot = {
+    name: `bot${i + 1}`,
+    client: createNetClient(() => {}),
+    socket: null as unknown as WebSocket,
+    input: { up: false, down: false, left: false, right: false, bomb: false, detonate: false },
+    corrections: [],
+    errors: []
+  };
+  await open(bot);
+  bots.push(bot);
+}
+
+const [host, ...guests] = bots;
+createRoom(host.client, host.name, { humans: 1, rivals: [CpuDifficulty.Easy], winsNeeded: 1, roundTimeMs: 30000, rows: GRID_ROWS, cols: GRID_COLS, rules: CLASSIC_RULES });
+await until(() => host.client.room !== null, 'the room');
+const code = host.client.room!.code;
+for (const guest of guests) joinRoom(guest.client, code, guest.name);
+await until(() => host.client.room!.members.length === CLIENTS, 'everyone to join');
+startOnlineMatch(host.client);
+await until(() => bots.every(b => b.client.playerId !== null), 'seats');
+
+// Everyone plays at 60Hz, changing their mind now and then
+const loop = setInterval(() => bots.forEach(bot => {
+  if (Math.random() < 0.05) {
+    bot.input = { up: Math.random() < 0.3, down: Math.random() < 0.3, left: Math.random() < 0.3, right: Math.random() < 0.3, bomb: false, detonate: false };
+  }
+  predictTick(bot.client, { ...bot.input, bomb: Math.random() < 0.01 });
+}), TICK_MS);
+
+let failure: string | null = null;
+const started = Date.now();
+try {
+  await sleep(DROP_AT_MS);
+  const dropper = guests[0];
+  const seat = dropper.client.playerId;
+  dropper.socket.terminate();
+  await sleep(OFFLINE_MS);
+  const offline = host.client.room!.members.find(m => m.name === dropper.name);
+  if (offline?.connected !== false) throw new Error('Host was not told about the dropped player');
+  await open(dropper);
+  joinRoom(dropper.client, code, dropper.name);
+  await until(() => host.client.room!.members.every(m => m.connected), 'the rejoin');
+  if (dropper.client.playerId !== seat) throw new Error(`Rejoined as ${dropper.client.playerId}, expected ${seat}`);
+  const tick = dropper.client.serverTick;
+  await until(() => dropper.client.serverTick > tick, 'snapshots after the rejoin');
+
+  await sendGarbage(socket => socket.send(Buffer.from([0xFF, 0xFE, 0xFD]), { binary: false })); // Text that is not UTF-8
+  await sendGarbage(socket => socket.send('x'.repeat(NET_MAX_PAYLOAD + 1)));
+  const ticks = bots.map(b => b.client.serverTick);
+  await until(() => host.client.state?.status !== GameStatus.Playing || bots.every((b, i) => b.client.serverTick > ticks[i]), 'snapshots after the bad clients');
+  if (!host.client.room!.members.every(m => m.connected)) throw new Error('A bad client cost another player their connection');
+
+  // Play on until the round is decided or time runs out; either is fine
+  while (Date.now() - started < TIMEOUT_MS && host.client.state?.status === GameStatus.Playing) await sleep(50);
+  const errors = bots.flatMap(b => b.errors);
+  if (errors.length > 0) throw new Error(`Server errors: ${errors.join('; ')}`);
+} catch (e) {
+  failure = e instanceof Error ? e.message : String(e);
+}
+
+clearInterval(loop);
+bots.forEach(b => b.socket.terminate());
+await server.close();
+
+bots.forEach(b => {
+  const sorted = [...b.corrections].sort((x, y) => x - y);
+  const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+  process.stdout.write(`${b.name} ${b.client.playerId} snapshots=${b.corrections.length} median correction=${median.toFixed(1)}px max=${(sorted.at(-1) ?? 0).toFixed(1)}px\n`);
+});
+const state = host.client.state;
+process.stdout.write(`room ${code}: ${state ? GameStatus[state.status] : 'no game'} at tick ${state?.tick ?? 0}, winner ${state?.winnerId ?? 'none'}\n`);
+if (failure) {
+  process.stderr.write(`FAILED: ${failure}\n`);
+  process.exit(1);
+}
+process.stdout.write('OK\n');
@@ -0,0 +1,12 @@
+import { NET_PORT } from '../constants';
+import { startServer } from './server';
+
+const port = Number(process.env.PORT ?? NET_PORT);
+const server = await startServer(port);
+process.stdout.write(`Bunny Bomber server listening on ws://localhost:${server.port}\n`);
+
+const shutdown = () => {
+  server.close().then(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
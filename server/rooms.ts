@@ -0,0 +1,263 @@
+import { BattleSetup, ClientMessage, GameState, GameStatus, MatchState, PlayerInput, PlayerInputs, RoomInfo, ServerMessage } from '../types';
+import { INPUT_BUFFER_TICKS, MAX_BOMBERS, REJOIN_GRACE_MS, ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH, SNAPSHOT_INTERVAL_TICKS, TICK_MS } from '../constants';
+import { createRound, matchWinner, resolveRound, startMatch } from '../engine/match';
+import { NO_INPUT, humanId, step } from '../engine/simulation';
+import { ProtocolError, encodeMessage, parseClientMessage } from '../engine/protocol';
+
+// What the lobby needs from a socket, so it can be driven without a network.
+export interface Connection {
+  send: (text: string) => void;
+  close: () => void;
+}
+
+export interface Session {
+  receive: (text: string) => void;
+  disconnect: () => void;
+}
+
+export interface Lobby {
+  connect: (connection: Connection) => Session;
+  tick: (now: number) => void; // Advances every running room by one step
+  rooms: () => RoomInfo[];
+}
+
+interface Member {
+  name: string;
+  token: string;
+  connection: Connection | null;
+  droppedAt: number | null;
+  slot: number; // -1 until seated by the start of a match
+  queue: { seq: number; input: PlayerInput }[];
+  lastSeq: number; // Newest input applied, acknowledged in snapshots
+  lastInput: PlayerInput;
+}
+
+interface Room {
+  code: string;
+  setup: BattleSetup;
+  members: Member[]; // The first is the host
+  match: MatchState | null;
+  state: GameState | null;
+  sinceSnapshot: number;
+}
+
+const isSeated = (room: Room, member: Member) =>
+  member.slot >= 0 && !!room.state?.players.some(p => p.id === humanId(member.slot));
+
+const roomInfo = (room: Room): RoomInfo => ({
+  code: room.code,
+  setup: room.setup,
+  members: room.members.map((m, i) => ({ name: m.name, slot: m.slot, host: i === 0, connected: m.connection !== null })),
+  playing: room.state !== null
+});
+
+// Runs every room's game authoritatively. Clients only send inputs; each tick
+// applies at most one queued input per player, holding the last direction
+// when none has arrived, and every few ticks the world goes out to everyone.
+export const createLobby = (random: () => number = Math.random): Lobby => {
+  const rooms = new Map<string, Room>();
+  let clock = 0;
+
+  const send = (member: Member, message: ServerMessage) => member.connection?.send(encodeMessage(message));
+
+  const broadcastRoom = (room: Room) => {
+    const info = roomInfo(room);
+    room.members.forEach((m, you) => send(m, { type: 'room', room: info, you }));
+  };
+
+  const broadcastState = (room: Room) => {
+    if (!room.state || !room.match) return;
+    const acks: Record<string, number> = {};
+    const inputs: PlayerInputs = {};
+    room.members.filter(m => isSeated(room, m)).forEach(m => {
+      acks[humanId(m.slot)] = m.lastSeq;
+      inputs[humanId(m.slot)] = m.lastInput;
+    });
+    const text = encodeMessage({ type: 'state', state: room.state, match: room.match, acks, inputs });
+    room.members.forEach(m => m.connection?.send(text));
+    room.sinceSnapshot = 0;
+  };
+
+  const newCode = () => {
+    let code = '';
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => ROOM_CODE_ALPHABET[Math.floor(random() * ROOM_CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const newMember = (name: string, connection: Connection): Member => ({
+    name,
+    token: crypto.randomUUID(),
+    connection,
+    droppedAt: null,
+    slot: -1,
+    queue: [],
+    lastSeq: 0,
+    lastInput: NO_INPUT
+  });
+
+  const startRound = (room: Room) => {
+    if (!room.match) return;
+    room.state = createRound(room.match);
+    room.members.forEach(m => {
+      m.queue = [];
+      m.lastInput = NO_INPUT;
+    });
+    broadcastState(room);
+  };
+
+  // Seats whoever is in the room, in join order, for a fresh match
+  const startNewMatch = (room: Room) => {
+    room.members.forEach((m, i) => { m.slot = i; });
+    room.setup = { ...room.setup, humans: room.members.length };
+    room.match = startMatch(Math.floor(random() * 4294967296), room.setup);
+    broadcastRoom(room);
+    startRound(room);
+  };
+
+  const removeMember = (room: Room, member: Member) => {
+    room.members = room.members.filter(m => m !== member);
+    if (room.members.length === 0) rooms.delete(room.code);
+    else broadcastRoom(room);
+  };
+
+  const applyInputs = (room: Room): PlayerInputs => {
+    const inputs: PlayerInputs = {};
+    room.members.filter(m => isSeated(room, m)).forEach(m => {
+      const next = m.queue.shift();
+      if (next) {
+        m.lastSeq = next.seq;
+        m.lastInput = next.input;
+        inputs[humanId(m.slot)] = next.input;
+      } else {
+        // Bombs and detonations are one-shot; only movement is held
+        inputs[humanId(m.slot)] = { ...m.lastInput, bomb: false, detonate: false };
+      }
+    });
+    return inputs;
+  };
+
+  const tickRoom = (room: Room) => {
+    room.members
+      .filter(m => m.droppedAt !== null && clock - m.droppedAt >= REJOIN_GRACE_MS)
+      .forEach(m => removeMember(room, m));
+    const state = room.state;
+    if (!rooms.has(room.code) || !state || !room.match || state.status !== GameStatus.Playing) return;
+    step(state, applyInputs(room), TICK_MS);
+    room.sinceSnapshot++;
+    // Battles only ever end in RoundOver, which goes out straight away
+    if (state.status !== GameStatus.Playing) {
+      room.match = resolveRound(room.match, state);
+      broadcastState(room);
+    } else if (room.sinceSnapshot >= SNAPSHOT_INTERVAL_TICKS) {
+      broadcastState(room);
+    }
+  };
+
+  const connect = (connection: Connection): Session => {
+    let room: Room | null = null;
+    let member: Member | null = null;
+
+    const enter = (target: Room, who: Member) => {
+      room = target;
+      member = who;
+      send(who, { type: 'welcome', token: who.token, room: roomInfo(target), you: target.members.indexOf(who) });
+      broadcastRoom(target);
+      broadcastState(target);
+    };
+
+    const handle = (message: ClientMessage) => {
+      if (message.type === 'create' || message.type === 'join') {
+        if (room) throw new ProtocolError('Already in a room');
+        if (message.type === 'create') {
+          const code = newCode();
+          const created: Room = { code, setup: message.setup, members: [], match: null, state: null, sinceSnapshot: 0 };
+          const host = newMember(message.name, connection);
+          created.members.push(host);
+          rooms.set(code, created);
+          enter(created, host);
+          return;
+        }
+        const target = rooms.get(message.code);
+        if (!target) throw new ProtocolError(`No room ${message.code}`);
+        const known = target.members.find(m => m.token === message.token);
+        if (known) {
+          known.connection?.close();
+          known.connection = connection;
+          known.droppedAt = null;
+          enter(target, known);
+          return;
+        }
+        if (target.members.length + target.setup.rivals.length >= MAX_BOMBERS) throw new ProtocolError(`Room ${message.code} is full`);
+        const joined = newMember(message.name, connection);
+        target.members.push(joined);
+        enter(target, joined);
+        return;
+      }
+
+      if (!room || !member) throw new ProtocolError('Not in a room');
+      const isHost = room.members[0] === member;
+      switch (message.type) {
+        case 'start':
+          if (!isHost) throw new ProtocolError('Only the host can start');
+          if (room.members.length + room.setup.rivals.length < 2) throw new ProtocolError('Need at least two bombers');
+          startNewMatch(room);
+          break;
+        case 'nextRound':
+          if (!isHost) throw new ProtocolError('Only the host can start the next round');
+          if (room.state?.status !== GameStatus.RoundOver || !room.match || matchWinner(room.match) !== null) {
+            throw new ProtocolError('The round is not over');
+          }
+          startRound(room);
+          break;
+        case 'input':
+          if (!isSeated(room, member) || message.seq <= (member.queue.at(-1)?.seq ?? member.lastSeq)) return;
+          member.queue.push({ seq: message.seq, input: message.input });
+          if (member.queue.length > INPUT_BUFFER_TICKS) member.queue.shift();
+          break;
+        case 'leave':
+          removeMember(room, member);
+          room = null;
+          member = null;
+          break;
+      }
+    };
+
+    // The seat is kept for a while in case the player comes back
+    const disconnect = () => {
+      if (!room || !member || member.connection !== connection) return;
+      member.connection = null;
+      member.droppedAt = clock;
+      broadcastRoom(room);
+    };
+
+    return {
+      receive: text => {
+        try {
+          handle(parseClientMessage(text));
+        } catch (e) {
+          if (e instanceof ProtocolError) {
+            connection.send(encodeMessage({ type: 'error', message: e.message }));
+            return;
+          }
+          // A fault handling this message drops only the client that sent it,
+          // and the other rooms play on
+          connection.send(encodeMessage({ type: 'error', message: 'Internal server error' }));
+          disconnect();
+          connection.close();
+        }
+      },
+      disconnect
+    };
+  };
+
+  return {
+    connect,
+    tick: now => {
+      clock = now;
+      rooms.forEach(tickRoom);
+    },
+    rooms: () => [...rooms.values()].map(roomInfo)
+  };
+};
@@ -0,0 +1,70 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { MAX_CATCH_UP_TICKS, NET_MAX_PAYLOAD, TICK_MS } from '../constants';
+import { NET_SUBPROTOCOL } from '../engine/protocol';
+import { Lobby, Session, createLobby } from './rooms';
+
+export interface GameServer {
+  port: number;
+  lobby: Lobby;
+  close: () => Promise<void>;
+}
+
+// Port 0 picks a free one, which the returned server reports.
+export const startServer = (port: number): Promise<GameServer> => new Promise((resolve, reject) => {
+  const lobby = createLobby();
+  const wss = new WebSocketServer({
+    port,
+    maxPayload: NET_MAX_PAYLOAD,
+    handleProtocols: protocols => protocols.has(NET_SUBPROTOCOL) ? NET_SUBPROTOCOL : false
+  });
+
+  wss.on('connection', socket => {
+    let session: Session | null = null;
+    // A malformed, oversized or non-UTF-8 frame costs only the connection
+    // that sent it; unhandled, it would take the whole server down
+    socket.on('error', () => {
+      session?.disconnect();
+      socket.terminate();
+    });
+    if (socket.protocol !== NET_SUBPROTOCOL) {
+      socket.close(1002, 'Unsupported protocol version');
+      return;
+    }
+    const connected = lobby.connect({ send: text => socket.send(text), close: () => socket.close() });
+    session = connected;
+    socket.on('message', data => connected.receive(String(data)));
+    socket.on('close', connected.disconnect);
+  });
+
+  // Same fixed timestep as the browser loop; timers are coarse, so each wake-up
+  // runs however many ticks are due.
+  let last = performance.now();
+  let accumulator = 0;
+  const timer = setInterval(() => {
+    const now = performance.now();
+    accumulator += now - last;
+    last = now;
+    let ticks = 0;
+    while (accumulator >= TICK_MS && ticks < MAX_CATCH_UP_TICKS) {
+      lobby.tick(now);
+      accumulator -= TICK_MS;
+      ticks++;
+    }
+    if (accumulator >= TICK_MS) accumulator = 0;
+  }, TICK_MS / 2);
+
+  wss.on('error', error => {
+    clearInterval(timer);
+    reject(error);
+  });
+  wss.on('listening', () => resolve({
+    port: (wss.address() as AddressInfo).port,
+    lobby,
+    close: () => new Promise(done => {
+      clearInterval(timer);
+      wss.clients.forEach(client => client.terminate());
+      wss.close(() => done());
+    })
+  }));
+});
@@ -1,7 +1,20 @@
+import { Rng } from './engine/rng';
+
 export enum TileType {
   Empty = 0,
   HardWall = 1,
   SoftWall = 2,
+  ToughWall = 3, // Takes two blasts; the first cracks it into a soft wall
+  ConveyorUp = 4, // Carries bombers and bombs along
+  ConveyorDown = 5,
+  ConveyorLeft = 6,
+  ConveyorRight = 7,
+  Ice = 8, // Bombers slide across until something stops them
+  ArrowUp = 9, // One-way: can only be entered moving the way it points
+  ArrowDown = 10,
+  ArrowLeft = 11,
+  ArrowRight = 12,
+  Teleporter = 13, // Linked in pairs, in reading order
 }
 
 export interface Point {
@@ -9,32 +22,112 @@ export interface Point {
   y: number;
 }
 
+export interface GridPos {
+  r: number;
+  c: number;
+}
+
 export interface Entity extends Point {
   width: number;
   height: number;
 }
 
+export enum PowerUpType {
+  ExtraBomb,
+  FireRange,
+  Speed,
+  Kick,
+  Remote,
+  Pierce,
+  Skull,
+  Mine,
+  Throw,
+}
+
+export enum CurseType {
+  Slow,
+  Reverse,
+  NoBombs,
+  Diarrhea, // Drops bombs whenever possible
+}
+
+export enum CpuDifficulty {
+  Easy,
+  Normal,
+  Hard,
+}
+
+// Working memory of a computer-controlled bomber.
+export interface BotBrain {
+  difficulty: CpuDifficulty;
+  goal: GridPos | null; // Tile it is currently heading for
+  thinkTimer: number; // Milliseconds until it reconsiders its goal
+}
+
 export interface Player extends Entity {
+  id: string;
+  slot: number; // Spawn corner and sprite
+  bot: BotBrain | null; // Null for human players
+  kills: number; // Enemies and rivals caught in this bomber's flames
+  score: number;
   alive: boolean;
-  speed: number;
+  lives: number; // Including the current one
+  spawn: GridPos; // Where the bomber comes back after losing a life
+  respawnMs: number; // Milliseconds until a downed bomber with lives left returns
+  invulnerableMs: number; // Milliseconds of immunity left after respawning
+  speed: number; // Pixels per simulation tick
   bombCount: number;
   maxBombs: number;
   blastRadius: number;
+  canKick: boolean;
+  canThrow: boolean;
+  remote: boolean;
+  pierce: boolean;
+  mines: number; // Land mines left; laid instead of bombs while any remain
+  facing: Point; // Last direction walked, where thrown bombs go
+  drift: Point | null; // Direction of an ice slide in progress
+  curse: CurseType | null;
+  curseTimer: number; // Milliseconds until the curse wears off
+}
+
+export enum EnemyKind {
+  Wanderer,
+  Chaser, // Paths towards the player
+  BombAvoider, // Steers clear of blast zones
+  Ghost, // Drifts through soft walls
+  Speedy, // Fast, but only turns when blocked
 }
 
 export interface Enemy extends Entity {
   id: number;
+  kind: EnemyKind;
   alive: boolean;
-  speed: number;
+  speed: number; // Pixels per simulation tick
   direction: Point; // {x: 1, y: 0} etc.
   changeDirTimer: number;
 }
 
 export interface Bomb extends Point {
   id: number;
-  timer: number; // Frames or milliseconds until explosion
+  timer: number; // Milliseconds until explosion; for a mine, until it is armed
   range: number;
-  ownerId: string; // 'player' or other
+  ownerId: string; // Id of the bomber that placed it
+  remote: boolean; // Waits for a detonate input instead of the fuse
+  pierce: boolean; // Flames pass through soft walls
+  mine: boolean; // Buried: does not block, and goes off when stepped on once armed
+  sliding: Point | null; // Kick direction while the bomb is moving
+  flight: Point | null; // Landing spot while thrown
+}
+
+export interface PowerUp extends Point {
+  id: number;
+  type: PowerUpType;
+  hidden: boolean; // Still buried under a soft wall
+}
+
+export interface DropTable {
+  chance: number; // Probability that a soft wall hides an item
+  weights: Partial<Record<PowerUpType, number>>;
 }
 
 export interface ExplosionParticle extends Point {
@@ -43,13 +136,311 @@ export interface ExplosionParticle extends Point {
 
 export interface Explosion {
   id: number;
+  bombId: number;
+  triggeredBy: number | null; // Id of the bomb whose flame set this one off
+  ownerId: string; // Bomber credited with anything the flames catch
+  chainId: number; // Id of the bomb that started the chain reaction
+  kills: number; // Enemies caught by these flames, for the multi-kill bonus
   particles: ExplosionParticle[];
   timer: number;
 }
 
+export interface Exit extends Point {
+  hidden: boolean; // Still buried under a soft wall
+  open: boolean; // Opens once every enemy is gone
+}
+
 export enum GameStatus {
   Menu,
   Playing,
   Won,
   Lost,
-}
\ No newline at end of file
+  StageClear,
+  CampaignComplete,
+  RoundOver, // Battle round decided; see GameState.winnerId
+}
+
+export enum GameMode {
+  Adventure, // Clear the enemies (and any rivals) to win
+  Battle, // Last bomber standing takes the round
+}
+
+export enum LevelTheme {
+  Meadow,
+  Desert,
+  Snow,
+  Night,
+}
+
+// Player stats that carry over from one stage to the next.
+export interface PlayerLoadout {
+  speed: number;
+  maxBombs: number;
+  blastRadius: number;
+  canKick: boolean;
+  canThrow: boolean;
+  remote: boolean;
+  pierce: boolean;
+  mines: number;
+}
+
+export interface LevelItem extends GridPos {
+  type: PowerUpType;
+}
+
+export interface LevelEnemy extends GridPos {
+  kind: EnemyKind;
+}
+
+// Hand-authored placement, as produced by the level text format.
+export interface LevelLayout {
+  tiles: TileType[][];
+  spawn: GridPos;
+  enemies: LevelEnemy[];
+  exit: GridPos | null;
+  items: LevelItem[]; // Buried under the soft wall on the same tile
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  rows: number;
+  cols: number;
+  softWallDensity: number; // Ignored when a layout is given
+  layout?: LevelLayout;
+  enemies: EnemyKind[];
+  rivals?: CpuDifficulty[];
+  timeLimitMs: number;
+  theme: LevelTheme;
+  dropTable?: DropTable;
+}
+
+// Core tuning a game is played under. The named presets are in
+// RULE_PRESETS and the allowed range of each field in RULE_LIMITS.
+export interface MatchRules {
+  bombTimerMs: number; // Fuse length
+  explosionMs: number; // How long flames stay lit
+  softWallDensity: number; // Chance a free tile starts as a soft wall
+  enemyCount: number; // Campaign stages add or drop enemies by the difference from Classic
+  spawnSafeRadius: number; // Tiles around each spawn kept clear of enemies and the exit
+  hitboxSize: number; // World pixels, for bombers and enemies alike
+  startBombs: number;
+  startRange: number;
+  startSpeed: number;
+}
+
+export enum RulesPreset {
+  Easy,
+  Classic,
+  Chaos,
+  Custom, // The player's own rules
+}
+
+export interface RulesSettings {
+  preset: RulesPreset;
+  custom: MatchRules; // Kept while another preset is chosen
+}
+
+export interface CampaignState {
+  seed: number;
+  levels: LevelDefinition[];
+  stageIndex: number;
+  lives: number;
+  score: number;
+  loadout: PlayerLoadout;
+  rules: MatchRules;
+}
+
+export interface BattleSetup {
+  humans: number;
+  rivals: CpuDifficulty[];
+  winsNeeded: number; // Round wins that take the match
+  roundTimeMs: number; // Sudden death starts when this runs out
+  rows: number; // Arena size
+  cols: number;
+  rules: MatchRules;
+}
+
+export interface MatchState {
+  seed: number;
+  setup: BattleSetup;
+  round: number;
+  wins: Record<string, number>; // Round wins by player id
+  draws: number;
+}
+
+export interface PlayerInput {
+  up: boolean;
+  down: boolean;
+  left: boolean;
+  right: boolean;
+  bomb: boolean; // Place a bomb this step (edge-triggered)
+  detonate: boolean; // Fire the oldest remote bomb (edge-triggered)
+}
+
+// Inputs for one step keyed by player id; bots supply their own.
+export type PlayerInputs = Record<string, PlayerInput>;
+
+// Logical controls a physical input source can be bound to.
+export type InputAction = keyof PlayerInput | 'pause';
+
+export type KeyBinding = Record<InputAction, string>; // KeyboardEvent.code per action
+
+export enum RenderBackend {
+  Emoji, // System emoji font; looks different on every OS
+  Sprites, // Built-in vector sprite atlas, no font needed
+}
+
+export enum Palette {
+  Standard, // The level theme's own colours
+  HighContrast,
+  Colorblind, // Okabe-Ito hues, told apart without red and green
+}
+
+export interface GraphicsSettings {
+  backend: RenderBackend;
+  theme: LevelTheme | null; // Overrides the level's own theme when set
+  palette: Palette; // Any but Standard replaces the theme's colours
+  reducedMotion: boolean | null; // Null follows the system setting
+  dangerZones: boolean; // Hatch the tiles a bomb is about to hit
+}
+
+export interface AudioSettings {
+  master: number; // 0..1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export interface GameOptions {
+  rows: number;
+  cols: number;
+  softWallDensity: number | null; // Null takes the rules' density
+  layout: LevelLayout | null;
+  enemies: EnemyKind[] | null; // Null means the rules' count of wanderers
+  mode: GameMode;
+  humans: number; // Human bombers, spawned before the rivals
+  rivals: CpuDifficulty[]; // CPU bombers spawned in the other corners
+  timeLimitMs: number | null;
+  exit: boolean; // Hide an exit door the player must reach after clearing enemies
+  dropTable: DropTable;
+  loadout: PlayerLoadout | null; // First human's; null starts from the rules
+  lives: number; // Per human; lost lives respawn until they run out
+  score: number; // Carried-over score of the first human
+  rules: MatchRules;
+}
+
+// Arena collapse once a battle round's timer runs out.
+export interface SuddenDeath {
+  queue: GridPos[]; // Tiles still to be walled in, outermost first
+  timer: number; // Milliseconds until the next wall drops
+}
+
+// Everything needed to re-run a game: createGame(seed, options) followed by
+// one step per tick with the logged inputs.
+export interface Recording {
+  version: number;
+  seed: number;
+  options: Partial<GameOptions>;
+  theme: LevelTheme;
+  ticks: number;
+  inputs: Record<string, string>; // Run-length encoded input log per human player id
+}
+
+export interface HighScoreEntry {
+  name: string;
+  score: number;
+  stage: number; // Furthest stage reached, 1-based
+  date: string; // ISO date of the run
+}
+
+// The stage everyone plays on one calendar day, rebuilt from the date alone.
+export interface DailyChallenge {
+  date: string; // Local calendar day, YYYY-MM-DD
+  seed: number;
+  level: LevelDefinition;
+  rules: MatchRules;
+}
+
+// Counted while a daily run is played.
+export interface DailyTally {
+  timeMs: number;
+  bombs: number; // Bombs and mines laid
+  deaths: number;
+}
+
+export interface DailyResult extends DailyTally {
+  date: string;
+  seedHash: string; // Short fingerprint of the seed, to check two runs played the same stage
+  cleared: boolean;
+}
+
+// A game in progress, as written to storage.
+export interface SaveGame {
+  version: number;
+  savedAt: number; // Epoch milliseconds
+  state: GameState;
+  campaign: CampaignState | null;
+  match: MatchState | null;
+  recording: Recording | null; // Inputs so far, so the replay survives a resume
+}
+
+// Something the presentation layer may react to, e.g. with a sound. Emitted
+// during one step and cleared at the start of the next.
+export type GameEvent =
+  | { type: 'bombPlaced'; ownerId: string }
+  | { type: 'explosion'; bombs: number } // Bombs set off together in one chain
+  | { type: 'enemyKilled'; kind: EnemyKind }
+  | { type: 'playerKilled'; playerId: string }
+  | { type: 'pickup'; playerId: string; item: PowerUpType };
+
+export interface GameState {
+  seed: number;
+  rng: Rng;
+  tick: number;
+  mode: GameMode;
+  status: GameStatus;
+  winnerId: string | null; // Battle winner; null on a draw
+  map: TileType[][];
+  players: Player[]; // Humans first, then CPU rivals
+  bombs: Bomb[];
+  explosions: Explosion[];
+  enemies: Enemy[];
+  powerUps: PowerUp[];
+  exit: Exit | null;
+  timeLeftMs: number | null;
+  suddenDeath: SuddenDeath | null;
+  dropTable: DropTable;
+  rules: MatchRules;
+  nextId: number; // Monotonic id source for bombs, explosions and enemies
+  events: GameEvent[]; // From the latest step
+}
+// --- Online play ---
+
+export interface RoomMember {
+  name: string;
+  slot: number; // Bomber slot in the next round
+  host: boolean;
+  connected: boolean; // False while the grace period for a rejoin runs
+}
+
+export interface RoomInfo {
+  code: string;
+  setup: BattleSetup; // `humans` follows the member count when a round starts
+  members: RoomMember[];
+  playing: boolean;
+}
+
+export type ClientMessage =
+  | { type: 'create'; name: string; setup: BattleSetup }
+  | { type: 'join'; code: string; name: string; token: string | null } // A known token rejoins
+  | { type: 'start' } // Host only: a new match
+  | { type: 'nextRound' } // Host only
+  | { type: 'input'; seq: number; input: PlayerInput }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'welcome'; token: string; room: RoomInfo; you: number } // `you` indexes room.members
+  | { type: 'room'; room: RoomInfo; you: number }
+  | { type: 'state'; state: GameState; match: MatchState; acks: Record<string, number>; inputs: PlayerInputs }
+  | { type: 'error'; message: string };
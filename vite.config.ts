@@ -1,15 +1,20 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+import { viteSingleFile } from 'vite-plugin-singlefile';
 
+// `vite build --mode offline` writes the whole game, scripts and styles
+// inlined, to a single HTML file that runs straight from disk.
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const offline = mode === 'offline';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), ...(offline ? [viteSingleFile()] : [])],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -18,6 +23,9 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      build: {
+        outDir: offline ? 'dist-offline' : 'dist',
       }
     };
 });